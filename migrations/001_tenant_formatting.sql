@@ -0,0 +1,9 @@
+-- Tenant currency, money formats, locale and timezone used by the Liquid
+-- money and date filters. All optional: unset values fall back to the
+-- STOREFRONT_DEFAULT_* settings.
+ALTER TABLE platform.tenants
+  ADD COLUMN IF NOT EXISTS currency varchar(3),
+  ADD COLUMN IF NOT EXISTS money_format text,
+  ADD COLUMN IF NOT EXISTS money_with_currency_format text,
+  ADD COLUMN IF NOT EXISTS locale varchar(35),
+  ADD COLUMN IF NOT EXISTS timezone varchar(64);
@@ -0,0 +1,4 @@
+-- Tenant plan, scaling the Liquid parse, render and memory limits. Unknown or
+-- unset plans get the base limits.
+ALTER TABLE platform.tenants
+  ADD COLUMN IF NOT EXISTS plan varchar(32);
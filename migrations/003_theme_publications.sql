@@ -0,0 +1,43 @@
+-- Theme publication history, one table per tenant schema. theme_id and
+-- settings take the types of the tenant's themes.id and themes.settings.
+DO $$
+DECLARE
+  tenant_schema text;
+  theme_id_type text;
+  settings_type text;
+BEGIN
+  FOR tenant_schema IN
+    SELECT nspname FROM pg_namespace WHERE nspname LIKE 'tenant\_%'
+  LOOP
+    CONTINUE WHEN to_regclass(format('%I.themes', tenant_schema)) IS NULL;
+
+    SELECT format_type(atttypid, atttypmod) INTO theme_id_type
+      FROM pg_attribute
+     WHERE attrelid = format('%I.themes', tenant_schema)::regclass AND attname = 'id';
+    SELECT format_type(atttypid, atttypmod) INTO settings_type
+      FROM pg_attribute
+     WHERE attrelid = format('%I.themes', tenant_schema)::regclass AND attname = 'settings';
+
+    EXECUTE format(
+      'CREATE TABLE IF NOT EXISTS %I.theme_publications (
+         id bigserial PRIMARY KEY,
+         theme_id %s NOT NULL,
+         version text NOT NULL,
+         s3_key text NOT NULL,
+         settings %s,
+         published_by text,
+         action text NOT NULL DEFAULT ''publish'',
+         published_at timestamptz NOT NULL DEFAULT now(),
+         rolled_back_at timestamptz
+       )',
+      tenant_schema, theme_id_type, coalesce(settings_type, 'jsonb')
+    );
+    -- The live publication is the newest one not rolled back
+    EXECUTE format(
+      'CREATE INDEX IF NOT EXISTS theme_publications_live_idx
+         ON %I.theme_publications (id DESC) WHERE rolled_back_at IS NULL',
+      tenant_schema
+    );
+  END LOOP;
+END
+$$;
@@ -0,0 +1,50 @@
+-- Blogs, articles and shop policies, one set of tables per tenant schema
+DO $$
+DECLARE
+  tenant_schema text;
+BEGIN
+  FOR tenant_schema IN
+    SELECT nspname FROM pg_namespace WHERE nspname LIKE 'tenant\_%'
+  LOOP
+    EXECUTE format(
+      'CREATE TABLE IF NOT EXISTS %I.blogs (
+         id bigserial PRIMARY KEY,
+         handle text NOT NULL UNIQUE,
+         title text NOT NULL,
+         created_at timestamptz NOT NULL DEFAULT now(),
+         updated_at timestamptz NOT NULL DEFAULT now()
+       )',
+      tenant_schema
+    );
+    EXECUTE format(
+      'CREATE TABLE IF NOT EXISTS %I.articles (
+         id bigserial PRIMARY KEY,
+         blog_id bigint NOT NULL REFERENCES %I.blogs (id) ON DELETE CASCADE,
+         handle text NOT NULL,
+         title text NOT NULL,
+         author text,
+         content text NOT NULL DEFAULT '''',
+         excerpt text,
+         image text,
+         tags text[] NOT NULL DEFAULT ''{}'',
+         is_published boolean NOT NULL DEFAULT false,
+         published_at timestamptz,
+         created_at timestamptz NOT NULL DEFAULT now(),
+         updated_at timestamptz NOT NULL DEFAULT now(),
+         UNIQUE (blog_id, handle)
+       )',
+      tenant_schema, tenant_schema
+    );
+    -- Policy types are the handles under /policies/ with underscores (refund_policy)
+    EXECUTE format(
+      'CREATE TABLE IF NOT EXISTS %I.shop_policies (
+         type text PRIMARY KEY,
+         title text NOT NULL,
+         body text NOT NULL DEFAULT '''',
+         updated_at timestamptz NOT NULL DEFAULT now()
+       )',
+      tenant_schema
+    );
+  END LOOP;
+END
+$$;
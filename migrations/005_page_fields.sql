@@ -0,0 +1,9 @@
+-- Page fields read by /pages/:handle and the pages sitemap. body_html, when
+-- set, wins over `content`; updated_at is the sitemap lastmod.
+ALTER TABLE pages
+  ADD COLUMN IF NOT EXISTS body_html text,
+  ADD COLUMN IF NOT EXISTS template_suffix text,
+  ADD COLUMN IF NOT EXISTS seo_title text,
+  ADD COLUMN IF NOT EXISTS seo_description text,
+  ADD COLUMN IF NOT EXISTS published_at timestamptz,
+  ADD COLUMN IF NOT EXISTS updated_at timestamptz NOT NULL DEFAULT now();
@@ -0,0 +1,26 @@
+-- Merchant URL redirects, one table per tenant schema. Imports upsert on
+-- (path, match_type); target is null for rules that only answer 410 Gone.
+DO $$
+DECLARE
+  tenant_schema text;
+BEGIN
+  FOR tenant_schema IN
+    SELECT nspname FROM pg_namespace WHERE nspname LIKE 'tenant\_%'
+  LOOP
+    EXECUTE format(
+      'CREATE TABLE IF NOT EXISTS %I.url_redirects (
+         id bigserial PRIMARY KEY,
+         path text NOT NULL,
+         target text,
+         match_type text NOT NULL DEFAULT ''exact''
+           CHECK (match_type IN (''exact'', ''prefix'', ''wildcard'')),
+         status_code smallint NOT NULL DEFAULT 301,
+         created_at timestamptz NOT NULL DEFAULT now(),
+         updated_at timestamptz NOT NULL DEFAULT now(),
+         UNIQUE (path, match_type)
+       )',
+      tenant_schema
+    );
+  END LOOP;
+END
+$$;
@@ -36,7 +36,8 @@ const configSchema = z.object({
     accessKeyId: z.string(),
     secretAccessKey: z.string(),
     bucketName: z.string().default('themes'),
-    forcePathStyle: z.boolean().default(false)
+    forcePathStyle: z.boolean().default(false),
+    maxConcurrency: z.number().default(16) // parallel object fetches per theme load
   }),
   
   // Cloudflare
@@ -60,14 +61,40 @@ const configSchema = z.object({
     enableMemory: z.boolean().default(true),
     themesCacheTTL: z.number().default(3600),
     dataCacheTTL: z.number().default(300),
+    enablePageCache: z.boolean().default(true),
+    pageFreshTTL: z.number().default(300), // rendered HTML served as fresh
+    pageStaleTTL: z.number().default(3600), // then served stale while re-rendering
+    suggestCacheTTL: z.number().default(60), // predictive search results
+    sitemapCacheTTL: z.number().default(86400), // sitemap entries, and their CDN lifetime
     maxMemoryCacheSize: z.number().default(100) // MB
   }),
   
+  // Storefront defaults (used when a tenant has no explicit setting)
+  storefront: z.object({
+    defaultCurrency: z.string().default('EUR'),
+    defaultLocale: z.string().default('en'),
+    defaultTimezone: z.string().default('UTC'),
+    imageCdnUrl: z.string().default('https://cdn.example.com/images')
+  }),
+  
+  // Liquid render limits for the base plan (scaled per tenant plan)
+  render: z.object({
+    parseLimit: z.number().default(1024 * 1024), // template source characters
+    renderLimit: z.number().default(1000), // ms per render
+    memoryLimit: z.number().default(50_000_000), // allocated string/array units per render
+    streaming: z.boolean().default(false) // flush the layout head before the template renders
+  }),
+  
   // Security
   security: z.object({
     trustProxy: z.boolean().default(false),
     rateLimitWindowMs: z.number().default(60000), // 1 minute
-    rateLimitMaxRequests: z.number().default(100)
+    rateLimitMaxRequests: z.number().default(100),
+    suggestRateLimitWindowMs: z.number().default(10000), // 10 seconds
+    suggestRateLimitMaxRequests: z.number().default(40),
+    previewSecret: z.string().optional(), // HMAC key for theme preview links; previews are disabled when unset
+    previewTokenTTL: z.number().default(3600), // seconds
+    internalApiToken: z.string().optional() // bearer token for /internal endpoints
   }),
   
   // Observability
@@ -109,7 +136,8 @@ const parseConfig = () => {
       accessKeyId: process.env.S3_ACCESS_KEY_ID || 'minio_admin',
       secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || 'minio_admin_password',
       bucketName: process.env.S3_BUCKET_NAME || 'themes',
-      forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true'
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+      maxConcurrency: parseInt(process.env.S3_MAX_CONCURRENCY || '16', 10)
     },
     
     cloudflare: {
@@ -130,13 +158,37 @@ const parseConfig = () => {
       enableMemory: process.env.CACHE_ENABLE_MEMORY !== 'false',
       themesCacheTTL: parseInt(process.env.CACHE_THEMES_TTL || '3600', 10),
       dataCacheTTL: parseInt(process.env.CACHE_DATA_TTL || '300', 10),
+      enablePageCache: process.env.CACHE_ENABLE_PAGES !== 'false',
+      pageFreshTTL: parseInt(process.env.CACHE_PAGE_FRESH_TTL || '300', 10),
+      pageStaleTTL: parseInt(process.env.CACHE_PAGE_STALE_TTL || '3600', 10),
+      suggestCacheTTL: parseInt(process.env.CACHE_SUGGEST_TTL || '60', 10),
+      sitemapCacheTTL: parseInt(process.env.CACHE_SITEMAP_TTL || '86400', 10),
       maxMemoryCacheSize: parseInt(process.env.CACHE_MAX_MEMORY_SIZE || '100', 10)
     },
     
+    storefront: {
+      defaultCurrency: process.env.STOREFRONT_DEFAULT_CURRENCY || 'EUR',
+      defaultLocale: process.env.STOREFRONT_DEFAULT_LOCALE || 'en',
+      defaultTimezone: process.env.STOREFRONT_DEFAULT_TIMEZONE || 'UTC',
+      imageCdnUrl: process.env.IMAGE_CDN_URL || 'https://cdn.example.com/images'
+    },
+    
+    render: {
+      parseLimit: parseInt(process.env.RENDER_PARSE_LIMIT || String(1024 * 1024), 10),
+      renderLimit: parseInt(process.env.RENDER_TIME_LIMIT_MS || '1000', 10),
+      memoryLimit: parseInt(process.env.RENDER_MEMORY_LIMIT || '50000000', 10),
+      streaming: process.env.RENDER_STREAMING === 'true'
+    },
+    
     security: {
       trustProxy: process.env.TRUST_PROXY === 'true',
       rateLimitWindowMs: parseInt(process.env.RATE_LIMIT_WINDOW_MS || '60000', 10),
-      rateLimitMaxRequests: parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || '100', 10)
+      rateLimitMaxRequests: parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || '100', 10),
+      suggestRateLimitWindowMs: parseInt(process.env.SUGGEST_RATE_LIMIT_WINDOW_MS || '10000', 10),
+      suggestRateLimitMaxRequests: parseInt(process.env.SUGGEST_RATE_LIMIT_MAX_REQUESTS || '40', 10),
+      previewSecret: process.env.PREVIEW_TOKEN_SECRET,
+      previewTokenTTL: parseInt(process.env.PREVIEW_TOKEN_TTL || '3600', 10),
+      internalApiToken: process.env.INTERNAL_API_TOKEN
     },
     
     observability: {
@@ -20,3 +20,12 @@ export const setNoCacheHeaders = (req: Request, res: Response, next: NextFunctio
   
   next();
 };
+
+export const setImmutableCacheHeaders = (req: Request, res: Response, next: NextFunction) => {
+  // Fingerprinted URLs never change content, cache for a year
+  res.setHeader('Cache-Control', 'public, max-age=31536000, immutable');
+  res.setHeader('CDN-Cache-Control', 'max-age=31536000');
+  res.setHeader('Vary', 'Accept-Encoding');
+  
+  next();
+};
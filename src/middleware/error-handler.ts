@@ -1,19 +1,174 @@
 import { Request, Response, NextFunction } from 'express';
+import { LiquidError } from 'liquidjs';
 import { logger } from '../utils/logger';
+import { escapeHtml } from '../utils/html';
+import { cdnSurrogateKeys } from '../services/surrogate-keys';
 
 export class AppError extends Error {
   statusCode: number;
   isOperational: boolean;
+  // Stable machine-readable reason, returned to API callers
+  code: string;
 
-  constructor(message: string, statusCode: number = 500, isOperational: boolean = true) {
+  constructor(message: string, statusCode: number = 500, isOperational: boolean = true, code?: string) {
     super(message);
     this.statusCode = statusCode;
     this.isOperational = isOperational;
+    this.code = code || (statusCode >= 500 ? 'internal_error' : 'request_error');
     Error.captureStackTrace(this, this.constructor);
   }
 }
 
-export const errorHandler = (
+/**
+ * A route or resource that does not exist (or is not published)
+ */
+export class NotFoundError extends AppError {
+  constructor(message: string = 'Not found') {
+    super(message, 404, true, 'not_found');
+  }
+}
+
+/**
+ * A resource that was removed on purpose and will not come back
+ */
+export class GoneError extends AppError {
+  constructor(message: string = 'Gone') {
+    super(message, 410, true, 'gone');
+  }
+}
+
+/**
+ * A backing service or database could not answer; retrying later may succeed
+ */
+export class UpstreamUnavailableError extends AppError {
+  retryAfter: number; // seconds
+
+  constructor(message: string = 'Service temporarily unavailable', retryAfter: number = 30) {
+    super(message, 503, true, 'upstream_unavailable');
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * A theme template failed to parse or render
+ */
+export class TemplateError extends AppError {
+  template?: string;
+
+  constructor(message: string, template?: string) {
+    super(message, 500, true, 'template_error');
+    this.template = template;
+  }
+}
+
+/**
+ * Renders a themed HTML error page for the current request, or null to use the
+ * built-in page. Routes that know the tenant's theme set it on `res.locals.errorPage`,
+ * routes that know the tenant set `res.locals.tenantId` so cached errors can be purged.
+ */
+export type ErrorPageRenderer = (error: AppError) => Promise<string | null>;
+
+// Network and PostgreSQL availability errors (admin shutdown, cannot connect now, too many connections)
+const UPSTREAM_ERROR_CODES = new Set([
+  'ECONNREFUSED', 'ECONNRESET', 'ETIMEDOUT', 'ECONNABORTED', 'EAI_AGAIN', 'ENOTFOUND',
+  '57P01', '57P03', '53300'
+]);
+
+// Browser and CDN lifetime per status; anything else is not cached
+const ERROR_MAX_AGE: Record<number, number> = {
+  404: 60, // short, so newly published resources replace the 404 quickly
+  410: 86400
+};
+
+const STATUS_TITLES: Record<number, string> = {
+  400: 'Bad request',
+  403: 'Access denied',
+  404: 'Page not found',
+  410: 'Page no longer available',
+  429: 'Too many requests',
+  503: 'Temporarily unavailable'
+};
+
+/**
+ * Map any thrown value onto the AppError taxonomy
+ */
+export const toAppError = (err: Error): AppError => {
+  if (err instanceof AppError) {
+    return err;
+  }
+  if (err instanceof LiquidError) {
+    return new TemplateError(err.message);
+  }
+
+  const { code, status, expose } = err as Error & { code?: string; status?: number; expose?: boolean };
+  if (code && UPSTREAM_ERROR_CODES.has(code)) {
+    return new UpstreamUnavailableError();
+  }
+  // body-parser and other http-errors style client errors
+  if (expose && typeof status === 'number' && status >= 400 && status < 500) {
+    return new AppError(err.message, status);
+  }
+
+  return new AppError('Internal Server Error', 500, false);
+};
+
+const setErrorCacheHeaders = (res: Response, error: AppError) => {
+  // The body is HTML or JSON depending on Accept
+  res.vary('Accept');
+  
+  // Responses already marked private (theme previews) stay uncacheable
+  if (/private|no-store/.test(String(res.getHeader('Cache-Control') || ''))) {
+    return;
+  }
+
+  const maxAge = ERROR_MAX_AGE[error.statusCode];
+  const tenantId = res.locals.tenantId as string | undefined;
+  if (maxAge && tenantId) {
+    res.setHeader('Cache-Control', `public, max-age=${maxAge}, s-maxage=${maxAge}`);
+    res.setHeader('CDN-Cache-Control', `max-age=${maxAge}`);
+    // Purged with the tenant, and with page_404 / page_410 when redirects change
+    res.setHeader('Surrogate-Key', cdnSurrogateKeys(tenantId, [`tenant_${tenantId}`, `page_${error.statusCode}`]).join(' '));
+  } else if (maxAge) {
+    // Unknown store: short browser caching only, nothing the CDN could not purge
+    res.setHeader('Cache-Control', `public, max-age=${maxAge}, s-maxage=0`);
+    res.setHeader('CDN-Cache-Control', 'no-store');
+  } else {
+    res.setHeader('Cache-Control', 'no-store');
+    res.setHeader('CDN-Cache-Control', 'no-store');
+  }
+};
+
+/**
+ * Built-in error page, used when the theme has no template for the error or
+ * the theme itself is what failed
+ */
+const renderBuiltInErrorPage = (error: AppError, message: string): string => {
+  const title = STATUS_TITLES[error.statusCode] || 'Something went wrong';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <meta name="robots" content="noindex">
+  <title>${escapeHtml(title)}</title>
+  <style>body{font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,sans-serif;max-width:600px;margin:80px auto;padding:0 24px;color:#222;text-align:center}a{color:inherit}</style>
+</head>
+<body>
+  <main>
+    <h1>${escapeHtml(title)}</h1>
+    ${message !== title ? `<p>${escapeHtml(message)}</p>` : ''}
+    <p><a href="/">Continue shopping</a></p>
+  </main>
+</body>
+</html>`;
+};
+
+/**
+ * Storefront visitors get an HTML page (themed when possible), API callers JSON.
+ * JSON wins for `Accept: *\/*`, so only clients that ask for HTML get it.
+ */
+export const errorHandler = async (
   err: Error | AppError,
   req: Request,
   res: Response,
@@ -23,23 +178,45 @@ export const errorHandler = (
     return next(err);
   }
 
-  const statusCode = err instanceof AppError ? err.statusCode : 500;
-  const message = err.message || 'Internal Server Error';
-  const isOperational = err instanceof AppError ? err.isOperational : false;
+  const error = toAppError(err);
+  const { statusCode } = error;
+  // Don't expose internal errors to clients
+  const message = error.isOperational ? error.message : 'Internal Server Error';
 
-  logger.error({
+  logger[statusCode >= 500 ? 'error' : 'warn']({
     error: err,
     statusCode,
+    code: error.code,
     path: req.path,
     method: req.method,
     ip: req.ip
   }, 'Request error');
 
-  // Don't expose internal errors to clients in production
-  const response = {
-    error: isOperational ? message : 'Internal Server Error',
-    ...(process.env.NODE_ENV === 'development' && { stack: err.stack })
-  };
+  setErrorCacheHeaders(res, error);
+  if (error instanceof UpstreamUnavailableError) {
+    res.setHeader('Retry-After', String(error.retryAfter));
+  }
+  res.status(statusCode);
+
+  const wantsHtml = (req.method === 'GET' || req.method === 'HEAD') && req.accepts(['json', 'html']) === 'html';
+  if (!wantsHtml) {
+    return res.json({
+      error: message,
+      code: error.code,
+      ...(error instanceof UpstreamUnavailableError && { retryAfter: error.retryAfter }),
+      ...(process.env.NODE_ENV === 'development' && { stack: err.stack })
+    });
+  }
+
+  let html: string | null = null;
+  const errorPage = res.locals.errorPage as ErrorPageRenderer | undefined;
+  if (errorPage && !(error instanceof TemplateError)) {
+    try {
+      html = await errorPage(error);
+    } catch (renderError) {
+      logger.error({ error: renderError, statusCode, path: req.path }, 'Error rendering themed error page');
+    }
+  }
 
-  res.status(statusCode).json(response);
+  res.type('html').send(html ?? renderBuiltInErrorPage(error, message));
 };
@@ -0,0 +1,39 @@
+import { Request, Response, NextFunction } from 'express';
+import { timingSafeEqual } from 'crypto';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+
+/**
+ * Protect internal endpoints called by other platform services
+ * Expects `Authorization: Bearer <INTERNAL_API_TOKEN>`
+ */
+export const requireInternalToken = (req: Request, res: Response, next: NextFunction) => {
+  const expected = config.security.internalApiToken;
+
+  if (!expected) {
+    logger.error('Internal API called but INTERNAL_API_TOKEN is not configured');
+    return res.status(503).json({ error: 'Internal API disabled' });
+  }
+
+  const header = req.get('Authorization') || '';
+  const token = Buffer.from(header.replace(/^Bearer\s+/i, ''));
+  const secret = Buffer.from(expected);
+
+  if (token.length !== secret.length || !timingSafeEqual(token, secret)) {
+    logger.warn({ path: req.path, ip: req.ip }, 'Rejected internal API request');
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  next();
+};
+
+/**
+ * Tenant IDs are interpolated into schema names, only allow safe identifiers
+ */
+export const validateTenantParam = (req: Request, res: Response, next: NextFunction) => {
+  if (!/^[a-z0-9_]+$/i.test(req.params.tenantId || '')) {
+    return res.status(400).json({ error: 'Invalid tenant id' });
+  }
+
+  next();
+};
@@ -8,51 +8,84 @@ interface RateLimitInfo {
   resetTime: number;
 }
 
-export const rateLimiter = async (req: Request, res: Response, next: NextFunction) => {
-  try {
-    const redis = getRedisClient();
-    const ip = req.ip || req.socket.remoteAddress || 'unknown';
-    const key = `rate_limit:${ip}`;
-    
-    const windowMs = config.security.rateLimitWindowMs;
-    const maxRequests = config.security.rateLimitMaxRequests;
-    
-    // Get current count
-    const current = await redis.get(key);
-    const count = current ? parseInt(current, 10) : 0;
-    
-    if (count >= maxRequests) {
-      const ttl = await redis.ttl(key);
-      const resetTime = Date.now() + (ttl * 1000);
+interface RateLimiterOptions {
+  // Redis key prefix, one counter per client under it
+  prefix: string;
+  windowMs: number;
+  maxRequests: number;
+  // Client identity, defaults to the IP address
+  keyFor?: (req: Request) => string;
+}
+
+const clientIp = (req: Request) => req.ip || req.socket.remoteAddress || 'unknown';
+
+/**
+ * Fixed-window request limiter backed by a Redis counter
+ */
+export const createRateLimiter = (options: RateLimiterOptions) => {
+  const { prefix, windowMs, maxRequests, keyFor = clientIp } = options;
+  
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const redis = getRedisClient();
+      const ip = clientIp(req);
+      const key = `${prefix}:${keyFor(req)}`;
       
-      res.setHeader('X-RateLimit-Limit', maxRequests.toString());
-      res.setHeader('X-RateLimit-Remaining', '0');
-      res.setHeader('X-RateLimit-Reset', resetTime.toString());
+      // Get current count
+      const current = await redis.get(key);
+      const count = current ? parseInt(current, 10) : 0;
       
-      logger.warn({ ip, count }, 'Rate limit exceeded');
+      if (count >= maxRequests) {
+        const ttl = await redis.ttl(key);
+        const resetTime = Date.now() + (ttl * 1000);
+        
+        res.setHeader('X-RateLimit-Limit', maxRequests.toString());
+        res.setHeader('X-RateLimit-Remaining', '0');
+        res.setHeader('X-RateLimit-Reset', resetTime.toString());
+        res.setHeader('Retry-After', Math.max(ttl, 1).toString());
+        
+        logger.warn({ ip, count, limiter: prefix }, 'Rate limit exceeded');
+        
+        return res.status(429).json({
+          error: 'Too Many Requests',
+          retryAfter: ttl
+        });
+      }
       
-      return res.status(429).json({
-        error: 'Too Many Requests',
-        retryAfter: ttl
-      });
-    }
-    
-    // Increment count
-    const newCount = await redis.incr(key);
-    
-    // Set expiry on first request
-    if (newCount === 1) {
-      await redis.pexpire(key, windowMs);
+      // Increment count
+      const newCount = await redis.incr(key);
+      
+      // Set expiry on first request
+      if (newCount === 1) {
+        await redis.pexpire(key, windowMs);
+      }
+      
+      // Set headers
+      res.setHeader('X-RateLimit-Limit', maxRequests.toString());
+      res.setHeader('X-RateLimit-Remaining', Math.max(maxRequests - newCount, 0).toString());
+      
+      next();
+    } catch (error) {
+      // If Redis fails, allow the request to proceed
+      logger.error({ error, limiter: prefix }, 'Rate limiter error');
+      next();
     }
-    
-    // Set headers
-    res.setHeader('X-RateLimit-Limit', maxRequests.toString());
-    res.setHeader('X-RateLimit-Remaining', (maxRequests - newCount).toString());
-    
-    next();
-  } catch (error) {
-    // If Redis fails, allow the request to proceed
-    logger.error({ error }, 'Rate limiter error');
-    next();
-  }
+  };
 };
+
+export const rateLimiter = createRateLimiter({
+  prefix: 'rate_limit',
+  windowMs: config.security.rateLimitWindowMs,
+  maxRequests: config.security.rateLimitMaxRequests
+});
+
+/**
+ * Predictive search: a keystroke-driven client sends short bursts, so the
+ * window is short and the budget is per storefront rather than shared with page views
+ */
+export const suggestRateLimiter = createRateLimiter({
+  prefix: 'rate_limit:suggest',
+  windowMs: config.security.suggestRateLimitWindowMs,
+  maxRequests: config.security.suggestRateLimitMaxRequests,
+  keyFor: req => `${req.hostname}:${clientIp(req)}`
+});
@@ -0,0 +1,130 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { GetObjectCommand } from '@aws-sdk/client-s3';
+import { Readable } from 'stream';
+import { getS3Client } from '../services';
+import { getTenantFromHost } from '../services/tenant-service';
+import { getThemeForTenant, getThemeMetadata } from '../services/theme-service';
+import { verifyPreviewToken } from '../services/preview-service';
+import { cdnSurrogateKeys } from '../services/surrogate-keys';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { setImmutableCacheHeaders } from '../middleware/cache-headers';
+
+const router = Router();
+
+const CONTENT_TYPES: Record<string, string> = {
+  css: 'text/css; charset=utf-8',
+  js: 'application/javascript; charset=utf-8',
+  mjs: 'application/javascript; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  map: 'application/json; charset=utf-8',
+  txt: 'text/plain; charset=utf-8',
+  svg: 'image/svg+xml',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  avif: 'image/avif',
+  ico: 'image/x-icon',
+  woff: 'font/woff',
+  woff2: 'font/woff2',
+  ttf: 'font/ttf',
+  otf: 'font/otf',
+  eot: 'application/vnd.ms-fontobject'
+};
+
+// Theme-relative asset paths: no traversal, no hidden files
+const ASSET_PATH = /^(?!.*(?:^|\/)\.)[\w\-./@]+$/;
+
+const contentTypeFor = (file: string, fallback?: string) => {
+  const extension = file.slice(file.lastIndexOf('.') + 1).toLowerCase();
+  return CONTENT_TYPES[extension] || fallback || 'application/octet-stream';
+};
+
+/**
+ * GET /cdn/shop/t/:version/assets/*
+ * Stream a theme asset from S3. The theme version in the URL fingerprints the
+ * asset, so responses are cached as immutable.
+ */
+router.get('/cdn/shop/t/:version/assets/*', setImmutableCacheHeaders, async (req: Request, res: Response, next: NextFunction) => {
+  const file = req.params[0];
+
+  try {
+    if (!file || !ASSET_PATH.test(file)) {
+      return res.status(404).send('Asset not found');
+    }
+
+    const tenant = await getTenantFromHost(req.hostname);
+    if (!tenant) {
+      return res.status(404).send('Store not found');
+    }
+
+    // Assets of a previewed theme require the same signed token as the page
+    const previewThemeId = typeof req.query.preview_theme_id === 'string' ? req.query.preview_theme_id : undefined;
+    if (previewThemeId) {
+      res.setHeader('Cache-Control', 'private, no-store');
+      res.setHeader('CDN-Cache-Control', 'no-store');
+      const token = typeof req.query.preview_token === 'string' ? req.query.preview_token : '';
+      if (!verifyPreviewToken(tenant.tenant_id, previewThemeId, token)) {
+        return res.status(403).send('Invalid or expired preview link');
+      }
+    }
+
+    const theme = previewThemeId
+      ? await getThemeMetadata(tenant.tenant_id, previewThemeId)
+      : await getThemeForTenant(tenant.tenant_id);
+    if (!theme) {
+      return res.status(404).send('Asset not found');
+    }
+
+    // Stale fingerprint (e.g. HTML cached before a publish): point to the current version
+    if (!previewThemeId && req.params.version !== String(theme.version)) {
+      res.setHeader('Cache-Control', 'public, max-age=60');
+      res.setHeader('CDN-Cache-Control', 'max-age=60');
+      return res.redirect(302, `/cdn/shop/t/${encodeURIComponent(theme.version)}/assets/${file}`);
+    }
+
+    const response = await getS3Client().send(new GetObjectCommand({
+      Bucket: config.s3.bucketName,
+      Key: `${theme.s3_key}/assets/${file}`,
+      IfNoneMatch: req.get('If-None-Match')
+    }));
+
+    res.setHeader('Content-Type', contentTypeFor(file, response.ContentType));
+    res.setHeader('Surrogate-Key', cdnSurrogateKeys(tenant.tenant_id, [
+      `tenant_${tenant.tenant_id}`, `theme_${theme.version}`, 'assets'
+    ]).join(' '));
+    if (response.ETag) res.setHeader('ETag', response.ETag);
+    if (response.LastModified) res.setHeader('Last-Modified', response.LastModified.toUTCString());
+    if (response.ContentLength !== undefined) res.setHeader('Content-Length', String(response.ContentLength));
+
+    const body = response.Body as Readable | undefined;
+    if (!body) {
+      return res.end();
+    }
+
+    body.on('error', (error) => {
+      logger.error({ error, tenant_id: tenant.tenant_id, file }, 'Error streaming theme asset');
+      res.destroy(error);
+    });
+    body.pipe(res);
+
+  } catch (error: any) {
+    if (error.$metadata?.httpStatusCode === 304) {
+      return res.status(304).end();
+    }
+    if (error.name === 'NoSuchKey' || error.$metadata?.httpStatusCode === 404) {
+      if (!req.query.preview_theme_id) {
+        res.setHeader('Cache-Control', 'public, max-age=60');
+        res.setHeader('CDN-Cache-Control', 'max-age=60');
+      }
+      return res.status(404).send('Asset not found');
+    }
+
+    logger.error({ error, host: req.hostname, file }, 'Error serving theme asset');
+    next(error);
+  }
+});
+
+export { router as assetsRouter };
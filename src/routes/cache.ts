@@ -0,0 +1,91 @@
+/**
+ * Cache Purge & Invalidation Routes (internal)
+ * Called by the admin and catalog services after content changes
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { purgeSurrogateKeys, purgeCDNCache } from '../services/cdn-purge';
+import { InvalidationType, isInvalidationType } from '../services/invalidation-bus';
+import { invalidateTenant } from '../services/tenant-service';
+import { invalidateThemeCache } from '../services/theme-service';
+import { invalidateProductCache, invalidateCollectionCache } from '../services/product-service';
+import { invalidateContentCache } from '../services/content-service';
+import { requireInternalToken, validateTenantParam } from '../middleware/internal-auth';
+import { setNoCacheHeaders } from '../middleware/cache-headers';
+
+const router = Router();
+
+const SURROGATE_KEY = /^[\p{L}\p{N}_.:-]+$/u;
+const MAX_KEYS = 500;
+
+router.use(requireInternalToken, setNoCacheHeaders);
+router.param('tenantId', (req: Request, res: Response, next: NextFunction) => validateTenantParam(req, res, next));
+
+const stringList = (value: unknown): string[] | null =>
+  Array.isArray(value) && value.every(item => typeof item === 'string') ? value : null;
+
+/**
+ * POST /internal/tenants/:tenantId/cache/purge
+ * Body: { keys?: ["product_123", "collection_summer"], paths?: ["/pages/about"] }
+ * Keys drop only the pages that used those resources; paths purge URLs at the CDN.
+ */
+router.post('/tenants/:tenantId/cache/purge', async (req: Request, res: Response, next: NextFunction) => {
+  const keys = req.body?.keys === undefined ? [] : stringList(req.body.keys);
+  const paths = req.body?.paths === undefined ? [] : stringList(req.body.paths);
+
+  if (!keys || !paths || keys.length + paths.length === 0) {
+    return res.status(400).json({ error: 'Expected a non-empty keys or paths array' });
+  }
+  if (keys.length > MAX_KEYS || paths.length > MAX_KEYS) {
+    return res.status(400).json({ error: `At most ${MAX_KEYS} keys and ${MAX_KEYS} paths per request` });
+  }
+  if (!keys.every(key => SURROGATE_KEY.test(key))) {
+    return res.status(400).json({ error: 'Invalid surrogate key' });
+  }
+
+  try {
+    await purgeSurrogateKeys(req.params.tenantId, keys);
+    if (paths.length > 0) {
+      await purgeCDNCache(req.params.tenantId, paths);
+    }
+    res.json({ success: true, keys, paths });
+  } catch (error) {
+    next(error);
+  }
+});
+
+const INVALIDATORS: Record<InvalidationType, (tenantId: string, ids?: string[]) => Promise<void>> = {
+  tenant: invalidateTenant,
+  theme: (tenantId) => invalidateThemeCache(tenantId),
+  product: invalidateProductCache,
+  collection: invalidateCollectionCache,
+  content: (tenantId) => invalidateContentCache(tenantId)
+};
+
+/**
+ * POST /internal/tenants/:tenantId/invalidate
+ * Body: { type: "tenant" | "theme" | "product" | "collection" | "content", ids?: [...] }
+ * ids are tenant hosts, product ids or collection handles; content (pages,
+ * blogs, articles, policies) is invalidated as a whole. Shared caches are
+ * cleared here; every pod evicts its memory caches via the invalidation bus.
+ */
+router.post('/tenants/:tenantId/invalidate', async (req: Request, res: Response, next: NextFunction) => {
+  const type = req.body?.type;
+  const ids = req.body?.ids === undefined ? undefined : stringList(req.body.ids);
+
+  if (!isInvalidationType(type)) {
+    return res.status(400).json({ error: 'Expected type: tenant, theme, product, collection or content' });
+  }
+  if (ids === null || (ids && ids.length > MAX_KEYS)) {
+    return res.status(400).json({ error: `ids must be an array of at most ${MAX_KEYS} strings` });
+  }
+
+  try {
+    await INVALIDATORS[type](req.params.tenantId, ids);
+    res.json({ success: true, type, ids });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export { router as cacheRouter };
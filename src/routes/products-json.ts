@@ -0,0 +1,131 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { getTenantFromHost, Tenant } from '../services/tenant-service';
+import { getProductByHandle, loadProducts, Product, ProductQuery } from '../services/microservices';
+import { getCollections } from '../services/product-service';
+import { productJson, ajaxProductJson, PRODUCT_JSON_VERSION } from '../services/product-json';
+import { cdnSurrogateKeys } from '../services/surrogate-keys';
+import { pageFromQuery } from '../utils/pagination';
+import { setCacheHeaders } from '../middleware/cache-headers';
+import { NotFoundError, UpstreamUnavailableError } from '../middleware/error-handler';
+import { logger } from '../utils/logger';
+
+/**
+ * Product JSON endpoints for theme JavaScript
+ *   GET /products/:handle.json
+ *   GET /products/:handle.js
+ *   GET /products.json?page=&limit=
+ *   GET /collections/:handle/products.json?page=&limit=
+ * Cached like the HTML pages, under the same surrogate keys, so product and
+ * collection purges reach them too.
+ */
+
+const router = Router();
+
+const DEFAULT_LIMIT = 30;
+const MAX_LIMIT = 250;
+
+const resolveTenant = async (req: Request, res: Response): Promise<Tenant> => {
+  const tenant = await getTenantFromHost(req.hostname);
+  if (!tenant) {
+    throw new NotFoundError('Store not found');
+  }
+  res.locals.tenantId = tenant.tenant_id;
+  return tenant;
+};
+
+const limitFromQuery = (query: Record<string, unknown>): number => {
+  const limit = parseInt(typeof query.limit === 'string' ? query.limit : '', 10);
+  return Number.isFinite(limit) ? Math.min(Math.max(limit, 1), MAX_LIMIT) : DEFAULT_LIMIT;
+};
+
+const sendJson = (res: Response, tenant: Tenant, keys: string[], body: unknown) => {
+  res.setHeader('X-Tenant-ID', tenant.tenant_id);
+  res.setHeader('X-Product-Json-Version', String(PRODUCT_JSON_VERSION));
+  res.setHeader('Surrogate-Key', cdnSurrogateKeys(tenant.tenant_id, [`tenant_${tenant.tenant_id}`, ...keys]).join(' '));
+  res.json(body);
+};
+
+/**
+ * One page of products; unlike listings on HTML pages an outage is an error,
+ * so an empty list never gets cached
+ */
+const loadProductPage = async (tenant: Tenant, query: Record<string, unknown>, scope: ProductQuery): Promise<Product[]> => {
+  const limit = limitFromQuery(query);
+  const page = pageFromQuery(query);
+
+  try {
+    const { products } = await loadProducts(tenant.tenant_id, { ...scope, limit, offset: (page - 1) * limit });
+    return products || [];
+  } catch (error) {
+    logger.error({ error, tenant_id: tenant.tenant_id, scope }, 'Error fetching products for JSON endpoint');
+    throw new UpstreamUnavailableError('Product service unavailable');
+  }
+};
+
+/**
+ * GET /products.json
+ */
+router.get('/products.json', setCacheHeaders, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const tenant = await resolveTenant(req, res);
+    const products = await loadProductPage(tenant, req.query, {});
+
+    sendJson(res, tenant, ['page_collection', 'collection_all', ...products.map(product => `product_${product.id}`)], {
+      products: products.map(productJson)
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /collections/:handle/products.json
+ */
+router.get('/collections/:collection/products.json', setCacheHeaders, async (req: Request, res: Response, next: NextFunction) => {
+  const handle = req.params.collection;
+
+  try {
+    const tenant = await resolveTenant(req, res);
+
+    let scope: ProductQuery = {};
+    if (handle !== 'all') {
+      // Only published collections are returned
+      const [collection] = await getCollections(tenant.tenant_id, { handle, limit: 1 });
+      if (!collection) {
+        throw new NotFoundError('Collection not found');
+      }
+      scope = { collection_id: collection.id };
+    }
+
+    const products = await loadProductPage(tenant, req.query, scope);
+
+    sendJson(res, tenant, ['page_collection', `collection_${handle}`, ...products.map(product => `product_${product.id}`)], {
+      products: products.map(productJson)
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /products/:handle.json and /products/:handle.js
+ */
+router.get(/^\/products\/([^/]+)\.(json|js)$/, setCacheHeaders, async (req: Request, res: Response, next: NextFunction) => {
+  const handle = req.params[0];
+  const format = req.params[1];
+
+  try {
+    const tenant = await resolveTenant(req, res);
+    const product = await getProductByHandle(tenant.tenant_id, handle);
+    if (!product) {
+      throw new NotFoundError('Product not found');
+    }
+
+    sendJson(res, tenant, ['page_product', `product_${product.id}`],
+      format === 'js' ? ajaxProductJson(product) : { product: productJson(product) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export { router as productsJsonRouter };
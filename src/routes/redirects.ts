@@ -0,0 +1,67 @@
+/**
+ * URL Redirect Routes (internal)
+ * Called by the admin service to list and import merchant redirects
+ */
+
+import express, { Router, Request, Response, NextFunction } from 'express';
+import { getRedirects, importRedirects, parseRedirectCsv } from '../services/redirect-service';
+import { requireInternalToken, validateTenantParam } from '../middleware/internal-auth';
+import { setNoCacheHeaders } from '../middleware/cache-headers';
+
+const router = Router();
+
+router.use(requireInternalToken, setNoCacheHeaders);
+router.param('tenantId', (req: Request, res: Response, next: NextFunction) => validateTenantParam(req, res, next));
+
+/**
+ * GET /internal/tenants/:tenantId/redirects
+ * All rules, in evaluation order within each match type
+ */
+router.get('/tenants/:tenantId/redirects', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const redirects = await getRedirects(req.params.tenantId);
+    res.json({ redirects });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /internal/tenants/:tenantId/redirects/import?mode=merge|replace
+ * Body (text/csv): path,target,match,status
+ *   /old-page,/pages/about,exact,301
+ *   /old-blog/*,/blogs/news/$1,wildcard,301
+ *   /discontinued,,exact,410
+ * The whole file is rejected with per-line errors when any rule is invalid.
+ */
+router.post(
+  '/tenants/:tenantId/redirects/import',
+  express.text({ type: ['text/csv', 'text/plain'], limit: '2mb' }),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const mode = req.query.mode === undefined ? 'merge' : req.query.mode;
+    if (mode !== 'merge' && mode !== 'replace') {
+      return res.status(400).json({ error: 'mode must be merge or replace' });
+    }
+    if (typeof req.body !== 'string' || req.body.trim() === '') {
+      return res.status(400).json({ error: 'Expected a text/csv body' });
+    }
+
+    try {
+      const parsed = parseRedirectCsv(req.body);
+      if (parsed.errors.length > 0) {
+        return res.status(422).json({ imported: 0, errors: parsed.errors });
+      }
+
+      const result = await importRedirects(req.params.tenantId, parsed.rules, mode);
+      if (result.errors.length > 0) {
+        return res.status(422).json(result);
+      }
+
+      res.json({ success: true, mode, imported: result.imported });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export { router as redirectsRouter };
@@ -0,0 +1,74 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { getTenantFromHost } from '../services/tenant-service';
+import {
+  getSearchSuggestions,
+  SuggestResourceType,
+  SUGGEST_RESOURCE_TYPES,
+  MAX_SUGGEST_LIMIT,
+  MAX_SUGGEST_TERMS_LENGTH
+} from '../services/search-suggest';
+import { cdnSurrogateKeys } from '../services/surrogate-keys';
+import { suggestRateLimiter } from '../middleware/rate-limiter';
+import { config } from '../config';
+
+const router = Router();
+
+const DEFAULT_SUGGEST_LIMIT = 4;
+
+const firstValue = (value: unknown): string | undefined => {
+  const first = Array.isArray(value) ? value[0] : value;
+  return typeof first === 'string' ? first : undefined;
+};
+
+/**
+ * GET /search/suggest.json?q=shi&resources[type]=product,collection&resources[limit]=4
+ * Predictive search for theme type-ahead. `limit` is accepted as a shorthand
+ * for `resources[limit]`; the types default to all of them.
+ */
+router.get('/suggest.json', suggestRateLimiter, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const tenant = await getTenantFromHost(req.hostname);
+    if (!tenant) {
+      return res.status(404).json({ error: 'Store not found' });
+    }
+
+    const terms = firstValue(req.query.q) || '';
+    if (terms.length > MAX_SUGGEST_TERMS_LENGTH) {
+      return res.status(400).json({ error: `q must be at most ${MAX_SUGGEST_TERMS_LENGTH} characters` });
+    }
+
+    const resources = (req.query.resources && typeof req.query.resources === 'object' ? req.query.resources : {}) as Record<string, unknown>;
+
+    const requestedTypes = firstValue(resources.type);
+    const types = requestedTypes
+      ? requestedTypes.split(',').map(type => type.trim()) as SuggestResourceType[]
+      : SUGGEST_RESOURCE_TYPES;
+    const unknownTypes = types.filter(type => !SUGGEST_RESOURCE_TYPES.includes(type));
+    if (unknownTypes.length > 0) {
+      return res.status(400).json({
+        error: `Unknown resources[type]: ${unknownTypes.join(', ')}. Expected ${SUGGEST_RESOURCE_TYPES.join(', ')}`
+      });
+    }
+
+    const requestedLimit = firstValue(resources.limit) ?? firstValue(req.query.limit);
+    const limit = requestedLimit === undefined ? DEFAULT_SUGGEST_LIMIT : parseInt(requestedLimit, 10);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_SUGGEST_LIMIT) {
+      return res.status(400).json({ error: `limit must be between 1 and ${MAX_SUGGEST_LIMIT}` });
+    }
+
+    const { results, complete } = await getSearchSuggestions(tenant.tenant_id, { terms, types, limit });
+
+    // Short-lived: new products should show up within a minute without a purge.
+    // Partial results (a lookup failed) are never cached.
+    res.setHeader('Cache-Control', complete ? `public, max-age=${config.cache.suggestCacheTTL}` : 'no-store');
+    if (!complete) {
+      res.setHeader('CDN-Cache-Control', 'no-store');
+    }
+    res.setHeader('Surrogate-Key', cdnSurrogateKeys(tenant.tenant_id, [`tenant_${tenant.tenant_id}`, 'search_suggest']).join(' '));
+    res.json({ resources: { results } });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export { router as searchRouter };
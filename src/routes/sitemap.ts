@@ -0,0 +1,88 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { getTenantFromHost, canonicalHost, Tenant } from '../services/tenant-service';
+import { getThemeForTenant } from '../services/theme-service';
+import { renderSitemapIndex, renderSitemap, SitemapType } from '../services/sitemap-service';
+import { renderRobots } from '../services/robots-service';
+import { cdnSurrogateKeys } from '../services/surrogate-keys';
+import { NotFoundError } from '../middleware/error-handler';
+import { config } from '../config';
+
+/**
+ * Crawler files: /sitemap.xml, /sitemap_<type>_<page>.xml and /robots.txt
+ * Served with long CDN lifetimes; catalog and theme changes purge them by surrogate key.
+ */
+
+const router = Router();
+
+const resolveTenant = async (req: Request, res: Response): Promise<Tenant> => {
+  const tenant = await getTenantFromHost(req.hostname);
+  if (!tenant) {
+    throw new NotFoundError('Store not found');
+  }
+  res.locals.tenantId = tenant.tenant_id;
+  return tenant;
+};
+
+const originFor = (tenant: Tenant, req: Request) => `https://${canonicalHost(tenant, req.hostname)}`;
+
+const setCrawlerHeaders = (res: Response, tenant: Tenant, keys: string[]) => {
+  const ttl = config.cache.sitemapCacheTTL;
+  res.setHeader('Cache-Control', `public, max-age=3600, s-maxage=${ttl}`);
+  res.setHeader('CDN-Cache-Control', `max-age=${ttl}`);
+  res.setHeader('Surrogate-Key', cdnSurrogateKeys(tenant.tenant_id, [`tenant_${tenant.tenant_id}`, ...keys]).join(' '));
+  res.setHeader('X-Tenant-ID', tenant.tenant_id);
+};
+
+/**
+ * GET /sitemap.xml
+ */
+router.get('/sitemap.xml', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const tenant = await resolveTenant(req, res);
+    const xml = await renderSitemapIndex(tenant.tenant_id, originFor(tenant, req));
+
+    setCrawlerHeaders(res, tenant, ['sitemap_index']);
+    res.type('application/xml').send(xml);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /sitemap_products_1.xml (also collections, pages, blogs)
+ */
+router.get(/^\/sitemap_(products|collections|pages|blogs)_(\d{1,6})\.xml$/, async (req: Request, res: Response, next: NextFunction) => {
+  const type = req.params[0] as SitemapType;
+  const page = Number(req.params[1]);
+
+  try {
+    const tenant = await resolveTenant(req, res);
+    const xml = await renderSitemap(tenant.tenant_id, type, page, originFor(tenant, req));
+    if (!xml) {
+      throw new NotFoundError('Sitemap not found');
+    }
+
+    setCrawlerHeaders(res, tenant, [`sitemap_${type}`]);
+    res.type('application/xml').send(xml);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /robots.txt
+ */
+router.get('/robots.txt', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const tenant = await resolveTenant(req, res);
+    const theme = await getThemeForTenant(tenant.tenant_id);
+    const body = await renderRobots(tenant, theme, originFor(tenant, req));
+
+    setCrawlerHeaders(res, tenant, theme ? ['robots', `theme_${theme.version}`] : ['robots']);
+    res.type('text/plain').send(body);
+  } catch (error) {
+    next(error);
+  }
+});
+
+export { router as sitemapRouter };
@@ -1,24 +1,293 @@
 import { Router, Request, Response, NextFunction } from 'express';
-import { Liquid } from 'liquidjs';
-import { getTenantFromHost } from '../services/tenant-service';
-import { getThemeForTenant } from '../services/theme-service';
-import { getProductsFromService, getProductByHandle } from '../services/microservices';
-import { renderPage } from '../services/renderer-service';
+import { getTenantFromHost, canonicalHost, Tenant } from '../services/tenant-service';
+import { getThemeForTenant, getThemeForPreview, Theme } from '../services/theme-service';
+import { renderPage, renderPageStream, renderFallbackPage } from '../services/renderer-service';
+import { getLiquidForTheme, createThemeEngine } from '../services/liquid-engine';
+import { resolveResourceSettings } from '../services/theme-settings';
+import { verifyPreviewToken, injectPreviewBar } from '../services/preview-service';
+import { getRenderLimits, isRenderLimitError, renderLimitKind, offendingTemplate } from '../services/render-limits';
+import { buildPageCacheKey, isCacheableQuery, getCachedPage, storeCachedPage, refreshInBackground, CachedPage } from '../services/page-cache';
+import { collectSurrogateKeys, cdnSurrogateKeys } from '../services/surrogate-keys';
+import { matchRoute, loadRoute, RouteMatch, StorefrontRoute, DEFAULT_CACHE_POLICY } from '../services/route-registry';
+import '../services/storefront-routes';
+import { config } from '../config';
 import { logger } from '../utils/logger';
+import { renderLimitExceeded } from '../utils/metrics';
 import { setCacheHeaders } from '../middleware/cache-headers';
+import { findRedirect, RedirectResult } from '../services/redirect-service';
+import { AppError, NotFoundError, GoneError, ErrorPageRenderer } from '../middleware/error-handler';
 
 const router = Router();
 
-// Initialize Liquid engine
-const liquid = new Liquid({
-  cache: true,
-  strictFilters: true,
-  strictVariables: false,
+// Previews are per merchant and must never reach a shared cache
+const setPreviewHeaders = (res: Response) => {
+  res.setHeader('Cache-Control', 'private, no-cache, no-store, must-revalidate');
+  res.setHeader('CDN-Cache-Control', 'no-store');
+  res.setHeader('Expires', '0');
+  res.setHeader('Pragma', 'no-cache');
+  res.setHeader('X-Robots-Tag', 'noindex');
+};
+
+interface RenderedPage extends CachedPage {
+  fallback?: string; // limit that forced the built-in page
+}
+
+interface StorefrontRequest {
+  path: string;
+  // Canonical host, for absolute URLs
+  host: string;
+  route: RouteMatch;
+  query: Request['query'];
+  preview?: { themeId: string; token: string };
+}
+
+/**
+ * Route rendering an error with a theme template: 404 for missing (404) and
+ * removed (410) resources, `error` for anything else when the theme has one
+ */
+const errorMatch = (path: string, error: AppError): RouteMatch => {
+  const template = error.statusCode === 404 || error.statusCode === 410 ? '404' : 'error';
+  const route: StorefrontRoute = {
+    type: template,
+    pattern: '',
+    template,
+    load: async () => ({
+      error: { status: error.statusCode, code: error.code, message: error.message }
+    })
+  };
+  return { route, path, params: {}, cache: { maxAge: 0, pageCache: false } };
+};
+
+// compression() adds flush() to push buffered output to the client
+type FlushableResponse = Response & { flush?: () => void };
+
+/**
+ * Resolve route data, settings and the theme engine for a request
+ */
+const prepareStorefront = async (tenant: Tenant, theme: Theme, request: StorefrontRequest) => {
+  const [routeData, settings] = await Promise.all([
+    loadRoute(request.route, tenant, request.query, name => Boolean(theme.templates?.[name])),
+    resolveResourceSettings(tenant.tenant_id, theme.settings || {}, theme.setting_resources)
+  ]);
+  
+  // Each theme renders with its own engine, within the plan's limits
+  const limits = getRenderLimits(tenant.plan);
+  const liquid = request.preview
+    ? createThemeEngine(theme, limits)
+    : getLiquidForTheme(tenant.tenant_id, theme, limits);
+  
+  return {
+    tenant,
+    theme,
+    request,
+    routeData,
+    liquid,
+    renderContext: {
+      tenant,
+      settings,
+      limits,
+      preview: request.preview,
+      request: { path: request.path, query: request.query, host: request.host }
+    },
+    surrogateKeys: collectSurrogateKeys({
+      tenantId: tenant.tenant_id,
+      themeVersion: theme.version,
+      routeType: routeData.type,
+      data: routeData.data,
+      settings,
+      resources: theme.setting_resources
+    })
+  };
+};
+
+type PreparedRender = Awaited<ReturnType<typeof prepareStorefront>>;
+
+const pageFor = (prepared: PreparedRender, html: string): RenderedPage => ({
+  html,
+  routeType: prepared.routeData.type,
+  themeVersion: prepared.theme.version,
+  surrogateKeys: prepared.surrogateKeys,
+  renderedAt: Date.now()
 });
 
+const logRenderLimit = (prepared: PreparedRender, error: Error, limit: string) => {
+  const { tenant, theme, routeData, request } = prepared;
+  renderLimitExceeded.inc({ limit });
+  logger.warn({
+    event: 'render_limit_exceeded',
+    tenant_id: tenant.tenant_id,
+    theme_id: theme.id,
+    theme_version: theme.version,
+    plan: tenant.plan,
+    limit,
+    template: offendingTemplate(error, `templates/${routeData.template}.liquid`),
+    path: request.path
+  }, 'Render limit exceeded, serving fallback template');
+};
+
+/**
+ * Render a prepared request to a complete page
+ */
+const renderBuffered = async (prepared: PreparedRender): Promise<RenderedPage> => {
+  const { liquid, theme, routeData, renderContext, request } = prepared;
+  let page: RenderedPage;
+  
+  try {
+    page = pageFor(prepared, await renderPage(liquid, theme, routeData, renderContext));
+  } catch (error) {
+    if (!isRenderLimitError(error)) {
+      throw error;
+    }
+    
+    // Theme exceeded its sandbox: serve the built-in page, never a 500
+    const limit = renderLimitKind(error as Error);
+    logRenderLimit(prepared, error as Error, limit);
+    page = { ...pageFor(prepared, renderFallbackPage(routeData, renderContext)), fallback: limit };
+  }
+  
+  if (request.preview) {
+    page.html = injectPreviewBar(page.html, theme, request.path);
+  }
+  
+  return page;
+};
+
+/**
+ * Resolve route data and render it with the tenant's theme.
+ * Runs without a response object so stale cache entries can be re-rendered in the background.
+ */
+const renderStorefront = async (tenant: Tenant, theme: Theme, request: StorefrontRequest): Promise<RenderedPage> =>
+  renderBuffered(await prepareStorefront(tenant, theme, request));
+
+// Closes a streamed template that hit a render limit after the head was sent
+const STREAM_FALLBACK_NOTICE = '<div class="render-fallback-notice" role="alert" style="margin:24px 0;padding:12px 16px;border:1px solid #d1d5db;background:#f9fafb;color:#222">'
+  + 'Part of this page could not be displayed. <a href="/">Continue shopping</a></div>';
+
+/**
+ * Stream a page: send headers and the layout head right away, pipe the template
+ * as it renders, then the layout tail. Resolves with the complete page once sent.
+ * Resolves null before anything is written when the page cannot be streamed
+ * (layout not splittable, or a render limit hit while rendering the layout).
+ *
+ * A render limit hit mid-body can no longer change the status or headers: the
+ * partial template is closed with a visible notice and the layout tail, and the
+ * page is kept out of the page cache. The CDN may still hold it until its
+ * max-age runs out, which is the price of streaming; tenants whose themes trip
+ * limits are better served with RENDER_STREAMING off. Any other failure
+ * mid-stream aborts the connection so no truncated page gets cached.
+ */
+const streamStorefront = async (
+  res: FlushableResponse,
+  prepared: PreparedRender,
+  sendHeaders: () => void
+): Promise<RenderedPage | null> => {
+  const { liquid, theme, routeData, renderContext, request } = prepared;
+  
+  let stream;
+  try {
+    stream = await renderPageStream(liquid, theme, routeData, renderContext);
+  } catch (error) {
+    if (isRenderLimitError(error)) {
+      return null;
+    }
+    throw error;
+  }
+  if (!stream) {
+    return null;
+  }
+  
+  const { head, body } = stream;
+  const tail = request.preview ? injectPreviewBar(stream.tail, theme, request.path) : stream.tail;
+  
+  sendHeaders();
+  res.setHeader('Content-Type', 'text/html; charset=utf-8');
+  res.write(head);
+  res.flush?.();
+  
+  const chunks: string[] = [head];
+  
+  return new Promise<RenderedPage>((resolve, reject) => {
+    body.on('data', (chunk) => {
+      const html = String(chunk);
+      chunks.push(html);
+      res.write(html);
+    });
+    
+    body.on('end', () => {
+      chunks.push(tail);
+      res.end(tail);
+      resolve(pageFor(prepared, chunks.join('')));
+    });
+    
+    body.on('error', (error: Error) => {
+      if (isRenderLimitError(error)) {
+        const limit = renderLimitKind(error);
+        logRenderLimit(prepared, error, limit);
+        chunks.push(STREAM_FALLBACK_NOTICE, tail);
+        res.end(STREAM_FALLBACK_NOTICE + tail);
+        resolve({ ...pageFor(prepared, chunks.join('')), fallback: limit });
+        return;
+      }
+      logger.error({
+        error,
+        tenant_id: prepared.tenant.tenant_id,
+        path: request.path,
+        bytes_sent: chunks.reduce((total, html) => total + html.length, 0)
+      }, 'Streaming render failed mid-response');
+      res.destroy(error);
+      reject(error);
+    });
+  });
+};
+
+/**
+ * Headers of a rendered page (set before the first byte when streaming)
+ */
+const setPageHeaders = (
+  res: Response,
+  tenant: Tenant,
+  page: Pick<RenderedPage, 'themeVersion' | 'surrogateKeys' | 'fallback'>,
+  cacheStatus: string,
+  startTime: number,
+  preview: boolean
+) => {
+  res.setHeader('X-Tenant-ID', tenant.tenant_id);
+  res.setHeader('X-Render-Time', `${Date.now() - startTime}ms`);
+  res.setHeader('X-Theme-Version', page.themeVersion);
+  res.setHeader('X-Page-Cache', cacheStatus);
+  
+  if (page.fallback) {
+    res.setHeader('Cache-Control', 'no-store');
+    res.setHeader('CDN-Cache-Control', 'no-store');
+    res.setHeader('X-Render-Fallback', page.fallback);
+  }
+  
+  if (!preview) {
+    // Set Surrogate-Key for Cloudflare cache purging
+    res.setHeader('Surrogate-Key', cdnSurrogateKeys(tenant.tenant_id, page.surrogateKeys).join(' '));
+  }
+};
+
+/**
+ * Send a merchant redirect; permanent ones are cached and purged when the rules change
+ */
+const sendRedirect = (res: Response, tenant: Tenant, redirect: RedirectResult & { location: string }) => {
+  if (redirect.status === 301) {
+    res.setHeader('Cache-Control', 'public, max-age=3600, s-maxage=3600');
+    res.setHeader('CDN-Cache-Control', 'max-age=3600');
+    res.setHeader('Surrogate-Key', cdnSurrogateKeys(tenant.tenant_id, [`tenant_${tenant.tenant_id}`, 'redirects']).join(' '));
+  } else {
+    res.setHeader('Cache-Control', 'no-store');
+    res.setHeader('CDN-Cache-Control', 'no-store');
+  }
+  res.redirect(redirect.status, redirect.location);
+};
+
 // Main storefront rendering endpoint
 router.get('*', setCacheHeaders, async (req: Request, res: Response, next: NextFunction) => {
   const startTime = Date.now();
+  // Set once the storefront is known, so a 404 can fall back to the merchant's redirects
+  let redirectTenant: Tenant | undefined;
   
   try {
     const host = req.hostname;
@@ -29,132 +298,142 @@ router.get('*', setCacheHeaders, async (req: Request, res: Response, next: NextF
     // Step 1: Resolve tenant from host
     const tenant = await getTenantFromHost(host);
     if (!tenant) {
-      return res.status(404).send('Store not found');
+      throw new NotFoundError('Store not found');
     }
+    res.locals.tenantId = tenant.tenant_id;
 
-    // Step 2: Load theme for tenant
-    const theme = await getThemeForTenant(tenant.tenant_id);
+    // Step 2: Load theme for tenant, or the previewed theme when the link is signed
+    const previewThemeId = typeof req.query.preview_theme_id === 'string' ? req.query.preview_theme_id : undefined;
+    if (previewThemeId) {
+      setPreviewHeaders(res);
+      const token = typeof req.query.preview_token === 'string' ? req.query.preview_token : '';
+      if (!verifyPreviewToken(tenant.tenant_id, previewThemeId, token)) {
+        logger.warn({ tenant_id: tenant.tenant_id, theme_id: previewThemeId }, 'Rejected theme preview request');
+        throw new AppError('Invalid or expired preview link', 403);
+      }
+    }
+    
+    const theme = previewThemeId
+      ? await getThemeForPreview(tenant.tenant_id, previewThemeId)
+      : await getThemeForTenant(tenant.tenant_id);
     if (!theme) {
-      return res.status(500).send('Theme not configured');
+      throw previewThemeId ? new NotFoundError('Theme not found') : new AppError('Theme not configured', 500);
     }
+    
+    const preview = previewThemeId
+      ? { themeId: previewThemeId, token: String(req.query.preview_token) }
+      : undefined;
+    
+    // Errors from here on render with the theme's 404 or error template
+    const errorPage: ErrorPageRenderer = async (error) => {
+      const errorRoute = errorMatch(path, error);
+      if (!theme.templates?.[errorRoute.route.template]) {
+        return null;
+      }
+      const page = await renderStorefront(tenant, theme, { path, host: canonicalHost(tenant, host), route: errorRoute, query: req.query, preview });
+      setPageHeaders(res, tenant, page, 'BYPASS', startTime, Boolean(preview));
+      return page.html;
+    };
+    res.locals.errorPage = errorPage;
+    redirectTenant = tenant;
 
-    // Step 3: Determine route and fetch data
-    const routeData = await resolveRoute(path, tenant.tenant_id);
+    // Step 3: Match the route table
+    const route = matchRoute(path);
+    if (!route) {
+      throw new NotFoundError('Page not found');
+    }
+    if (!previewThemeId && route.cache.maxAge !== DEFAULT_CACHE_POLICY.maxAge) {
+      res.setHeader('Cache-Control', `public, max-age=${route.cache.maxAge}, s-maxage=${route.cache.maxAge}`);
+      res.setHeader('CDN-Cache-Control', `max-age=${route.cache.maxAge}`);
+    }
     
-    // Step 4: Render template
-    const html = await renderPage(liquid, theme, routeData, {
-      tenant,
-      request: {
+    const request: StorefrontRequest = { path, host: canonicalHost(tenant, host), route, query: req.query, preview };
+
+    // Step 4: Serve from the page cache (previews and unknown query parameters are never cached)
+    const cacheKey = !previewThemeId && config.cache.enablePageCache && route.cache.pageCache && isCacheableQuery(req.query)
+      ? buildPageCacheKey({
+        tenantId: tenant.tenant_id,
+        themeVersion: theme.version,
+        host: request.host,
         path,
         query: req.query,
+        locale: tenant.locale,
+        currency: tenant.currency
+      })
+      : undefined;
+    
+    if (cacheKey) {
+      const cached = await getCachedPage(cacheKey);
+      if (cached) {
+        if (cached.stale) {
+          refreshInBackground(cacheKey, async () => {
+            const page = await renderStorefront(tenant, theme, request);
+            if (!page.fallback) {
+              await storeCachedPage(cacheKey, tenant.tenant_id, page, page.surrogateKeys);
+            }
+          });
+        }
+        
+        setPageHeaders(res, tenant, cached.page, cached.stale ? 'STALE' : 'HIT', startTime, false);
+        return res.send(cached.page.html);
       }
-    });
+    }
 
-    // Step 5: Set cache headers and return
-    const renderTime = Date.now() - startTime;
+    // Step 5: Render, streaming the layout head first when enabled
+    const cacheStatus = cacheKey ? 'MISS' : 'BYPASS';
+    const prepared = await prepareStorefront(tenant, theme, request);
     
-    // Add custom headers
-    res.setHeader('X-Tenant-ID', tenant.tenant_id);
-    res.setHeader('X-Render-Time', `${renderTime}ms`);
-    res.setHeader('X-Theme-Version', theme.version);
+    let page = config.render.streaming
+      ? await streamStorefront(res, prepared, () =>
+        setPageHeaders(res, tenant, pageFor(prepared, ''), cacheStatus, startTime, Boolean(previewThemeId)))
+      : null;
+    const streamed = page !== null;
     
-    // Set Surrogate-Key for Cloudflare cache purging
-    res.setHeader('Surrogate-Key', `tenant_${tenant.tenant_id} page_${routeData.type}`);
+    if (!page) {
+      page = await renderBuffered(prepared);
+      setPageHeaders(res, tenant, page, cacheStatus, startTime, Boolean(previewThemeId));
+      res.send(page.html);
+    }
+    
+    if (cacheKey && !page.fallback) {
+      const { fallback, ...cached } = page;
+      await storeCachedPage(cacheKey, tenant.tenant_id, cached, page.surrogateKeys);
+    }
     
     logger.info({ 
       tenant_id: tenant.tenant_id, 
       path, 
-      render_time: renderTime 
+      render_time: Date.now() - startTime,
+      page_cache: cacheStatus,
+      streamed
     }, 'Storefront rendered successfully');
 
-    res.send(html);
-
   } catch (error) {
-    logger.error({ error, host: req.hostname, path: req.path }, 'Error rendering storefront');
-    next(error);
-  }
-});
-
-// Route resolver - determines what data to fetch based on path
-const resolveRoute = async (path: string, tenantId: string) => {
-  // Homepage
-  if (path === '/' || path === '') {
-    // Get featured products from microservice
-    const result = await getProductsFromService(tenantId, { limit: 12 });
-    
-    return {
-      type: 'home',
-      template: 'index',
-      data: {
-        collections: [],
-        featured_products: result.products
-      }
-    };
-  }
-
-  // Product page: /products/:handle
-  const productMatch = path.match(/^\/products\/([a-z0-9-]+)$/);
-  if (productMatch) {
-    const handle = productMatch[1];
-    const product = await getProductByHandle(tenantId, handle);
-    
-    if (!product) {
-      throw new Error('Product not found');
+    if (res.headersSent) {
+      // Streaming already started; the connection has been aborted
+      logger.error({ error, host: req.hostname, path: req.path }, 'Error rendering storefront');
+      return;
     }
     
-    return {
-      type: 'product',
-      template: 'product',
-      data: {
-        product
+    // Step 6: Merchant redirects take precedence over a 404
+    if (redirectTenant && error instanceof NotFoundError) {
+      const tenant = redirectTenant;
+      const queryString = req.originalUrl.split('?')[1] || '';
+      const redirect = await findRedirect(tenant.tenant_id, req.path, queryString).catch((redirectError) => {
+        logger.warn({ error: redirectError, tenant_id: tenant.tenant_id, path: req.path }, 'Redirect lookup failed');
+        return null;
+      });
+      
+      if (redirect?.location) {
+        return sendRedirect(res, tenant, { ...redirect, location: redirect.location });
       }
-    };
-  }
-
-  // Collection page: /collections/:handle
-  const collectionMatch = path.match(/^\/collections\/([a-z0-9-]+)$/);
-  if (collectionMatch) {
-    const handle = collectionMatch[1];
-    
-    // Get products from microservice
-    const result = await getProductsFromService(tenantId, { limit: 24 });
-    
-    return {
-      type: 'collection',
-      template: 'collection',
-      data: {
-        collection: {
-          id: handle,
-          title: handle.replace(/-/g, ' ').replace(/\b\w/g, l => l.toUpperCase()),
-          handle,
-          description: '',
-          published: true
-        },
-        products: result.products
+      if (redirect) {
+        return next(new GoneError('This page has been removed'));
       }
-    };
-  }
-
-  // Static pages: /pages/:handle
-  const pageMatch = path.match(/^\/pages\/([a-z0-9-]+)$/);
-  if (pageMatch) {
-    const handle = pageMatch[1];
-    // TODO: Fetch page content from page-service
+    }
     
-    return {
-      type: 'page',
-      template: 'page',
-      data: {
-        page: {
-          title: handle,
-          content: '<p>Page content here</p>'
-        }
-      }
-    };
+    next(error);
   }
-
-  // 404
-  throw new Error('Page not found');
-};
+});
 
 export { router as storefrontRouter };
@@ -0,0 +1,98 @@
+/**
+ * Theme Publishing Routes (internal)
+ * Called by the admin service to publish, roll back and audit themes
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { publishTheme, rollbackTheme, getThemeHistory } from '../services/theme-publishing';
+import { requireInternalToken, validateTenantParam } from '../middleware/internal-auth';
+import { setNoCacheHeaders } from '../middleware/cache-headers';
+import { createPreviewUrl, previewsEnabled } from '../services/preview-service';
+import { getThemeMetadata } from '../services/theme-service';
+import { getTenantDomains } from '../services/tenant-service';
+
+const router = Router();
+
+// Longest lifetime of a shared preview link, in seconds
+const MAX_PREVIEW_TTL = 7 * 24 * 3600;
+
+router.use(requireInternalToken, setNoCacheHeaders);
+router.param('tenantId', (req: Request, res: Response, next: NextFunction) => validateTenantParam(req, res, next));
+
+/**
+ * POST /internal/tenants/:tenantId/themes/:themeId/publish
+ * Publish a theme atomically
+ */
+router.post('/tenants/:tenantId/themes/:themeId/publish', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const publication = await publishTheme(req.params.tenantId, req.params.themeId, req.body?.published_by);
+    res.json({ success: true, publication });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /internal/tenants/:tenantId/themes/rollback
+ * Restore the previously published version
+ */
+router.post('/tenants/:tenantId/themes/rollback', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const publication = await rollbackTheme(req.params.tenantId);
+
+    if (!publication) {
+      return res.status(409).json({ error: 'No previous theme version to roll back to' });
+    }
+
+    res.json({ success: true, publication });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /internal/tenants/:tenantId/themes/history
+ * Published versions, newest first
+ */
+router.get('/tenants/:tenantId/themes/history', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const limit = Math.min(parseInt(String(req.query.limit || '20'), 10) || 20, 100);
+    const history = await getThemeHistory(req.params.tenantId, limit);
+    res.json({ history });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /internal/tenants/:tenantId/themes/:themeId/preview
+ * Signed storefront link to preview a (possibly unpublished) theme
+ * Body: { expires_in?: seconds }
+ */
+router.post('/tenants/:tenantId/themes/:themeId/preview', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!previewsEnabled()) {
+      return res.status(503).json({ error: 'Theme previews disabled' });
+    }
+
+    const { tenantId, themeId } = req.params;
+    const expiresIn = req.body?.expires_in;
+    if (expiresIn !== undefined && (!Number.isInteger(expiresIn) || expiresIn < 1 || expiresIn > MAX_PREVIEW_TTL)) {
+      return res.status(400).json({ error: `expires_in must be between 1 and ${MAX_PREVIEW_TTL} seconds` });
+    }
+
+    const [theme, domains] = await Promise.all([getThemeMetadata(tenantId, themeId), getTenantDomains(tenantId)]);
+    if (!theme) {
+      return res.status(404).json({ error: 'Theme not found' });
+    }
+    if (domains.length === 0) {
+      return res.status(409).json({ error: 'Tenant has no verified domain' });
+    }
+
+    res.json({ url: createPreviewUrl(`https://${domains[0]}/`, tenantId, themeId, expiresIn) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export { router as themesRouter };
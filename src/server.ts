@@ -9,7 +9,15 @@ import { initTracing } from './tracing';
 import storefrontRouter from './routes/storefront';
 import healthRouter from './routes/health';
 import cartRouter from './routes/cart';
+import { assetsRouter } from './routes/assets';
+import { themesRouter } from './routes/themes';
+import { cacheRouter } from './routes/cache';
+import { redirectsRouter } from './routes/redirects';
+import { searchRouter } from './routes/search';
+import { sitemapRouter } from './routes/sitemap';
+import { productsJsonRouter } from './routes/products-json';
 import { initializeServices } from './services';
+import { startInvalidationBus, stopInvalidationBus } from './services/invalidation-bus';
 import { errorHandler } from './middleware/error-handler';
 import { rateLimiter } from './middleware/rate-limiter';
 
@@ -34,6 +42,9 @@ app.use(compression());
 app.use(express.json({ limit: '1mb' }));
 app.use(express.urlencoded({ extended: true, limit: '1mb' }));
 
+// Predictive search has its own per-store limiter suited to keystroke bursts
+app.use('/search', searchRouter);
+
 // Rate limiting
 app.use(rateLimiter);
 
@@ -49,6 +60,20 @@ app.get('/metrics', async (_req: Request, res: Response) => {
 // Cart and checkout routes
 app.use('/cart', cartRouter);
 
+// Internal theme publishing, cache purge and redirect APIs (service-to-service)
+app.use('/internal', themesRouter);
+app.use('/internal', cacheRouter);
+app.use('/internal', redirectsRouter);
+
+// Theme assets (fingerprinted, immutable)
+app.use('/', assetsRouter);
+
+// Sitemaps and robots.txt
+app.use('/', sitemapRouter);
+
+// Product JSON for theme JavaScript (.json / .js)
+app.use('/', productsJsonRouter);
+
 // Storefront rendering (main functionality - must be last)
 app.use('/', storefrontRouter);
 
@@ -73,6 +98,7 @@ const gracefulShutdown = async (signal: string) => {
   try {
     await Promise.all([
       // Services will be closed here
+      stopInvalidationBus()
     ]);
     logger.info('All connections closed');
     process.exit(0);
@@ -87,6 +113,7 @@ const startServer = async () => {
   try {
     // Initialize all services (DB, Redis, S3)
     await initializeServices();
+    await startInvalidationBus();
     logger.info('All services initialized');
 
     const server = app.listen(config.port, () => {
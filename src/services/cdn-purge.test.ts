@@ -0,0 +1,64 @@
+import { createInMemoryPurgeClient, setPurgeClient, purgeSurrogateKeys, purgeCDNCache } from './cdn-purge';
+import { invalidatePagesByTags } from './page-cache';
+import { getTenantDomains } from './tenant-service';
+
+jest.mock('./page-cache', () => ({ invalidatePagesByTags: jest.fn().mockResolvedValue(0) }));
+jest.mock('./tenant-service', () => ({ getTenantDomains: jest.fn() }));
+
+const client = createInMemoryPurgeClient();
+
+beforeAll(() => {
+  setPurgeClient(client);
+});
+
+beforeEach(() => {
+  client.reset();
+  jest.clearAllMocks();
+});
+
+describe('purgeSurrogateKeys', () => {
+  it('drops the page cache entries and purges the tenant-scoped CDN tags', async () => {
+    await purgeSurrogateKeys('acme', ['tenant_acme', 'product_42', 'collection_shirts']);
+
+    expect(invalidatePagesByTags).toHaveBeenCalledWith('acme', ['tenant_acme', 'product_42', 'collection_shirts']);
+    expect(client.purgedTags).toEqual(['tenant_acme', 'acme:product_42', 'acme:collection_shirts']);
+  });
+
+  it('does nothing without keys', async () => {
+    await purgeSurrogateKeys('acme', []);
+
+    expect(invalidatePagesByTags).not.toHaveBeenCalled();
+    expect(client.purgedTags).toEqual([]);
+  });
+
+  it('does not throw when the CDN purge fails', async () => {
+    const failing = { name: 'failing', purgeTags: jest.fn().mockRejectedValue(new Error('down')), purgeUrls: jest.fn() };
+    setPurgeClient(failing);
+
+    await expect(purgeSurrogateKeys('acme', ['product_42'])).resolves.toBeUndefined();
+    expect(invalidatePagesByTags).toHaveBeenCalledWith('acme', ['product_42']);
+
+    setPurgeClient(client);
+  });
+});
+
+describe('purgeCDNCache', () => {
+  it('purges every page of the tenant by its tenant key', async () => {
+    await purgeCDNCache('acme');
+    expect(client.purgedTags).toEqual(['tenant_acme']);
+  });
+
+  it('purges paths on each verified domain', async () => {
+    (getTenantDomains as jest.Mock).mockResolvedValue(['acme.example.com', 'shop.acme.com']);
+
+    await purgeCDNCache('acme', ['/products/shirt', 'pages/about', 'https://cdn.acme.com/x']);
+
+    expect(client.purgedUrls).toEqual([
+      'https://acme.example.com/products/shirt',
+      'https://shop.acme.com/products/shirt',
+      'https://acme.example.com/pages/about',
+      'https://shop.acme.com/pages/about',
+      'https://cdn.acme.com/x'
+    ]);
+  });
+});
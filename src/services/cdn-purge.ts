@@ -0,0 +1,157 @@
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { invalidatePagesByTags } from './page-cache';
+import { cdnSurrogateKeys } from './surrogate-keys';
+import { getTenantDomains } from './tenant-service';
+
+/**
+ * CDN purge client
+ * Cloudflare in production; the in-memory client records purges locally and in tests.
+ */
+export interface CdnPurgeClient {
+  name: string;
+  purgeTags(tags: string[]): Promise<void>;
+  purgeUrls(urls: string[]): Promise<void>;
+}
+
+export interface InMemoryPurgeClient extends CdnPurgeClient {
+  purgedTags: string[];
+  purgedUrls: string[];
+  reset(): void;
+}
+
+// Cloudflare accepts at most 30 tags or files per purge request
+const CLOUDFLARE_BATCH_SIZE = 30;
+// Keep the in-memory history bounded when it runs in place of a CDN
+const MEMORY_HISTORY_LIMIT = 1000;
+
+let purgeClient: CdnPurgeClient | undefined;
+
+const chunk = <T>(items: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+};
+
+export const createCloudflarePurgeClient = (zoneId: string, apiToken: string): CdnPurgeClient => {
+  const purge = async (body: Record<string, string[]>) => {
+    const response = await fetch(`https://api.cloudflare.com/client/v4/zones/${zoneId}/purge_cache`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${apiToken}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(body)
+    });
+
+    if (!response.ok) {
+      throw new Error(`Cloudflare API error: ${response.statusText}`);
+    }
+  };
+
+  return {
+    name: 'cloudflare',
+    purgeTags: async (tags) => {
+      for (const batch of chunk(tags, CLOUDFLARE_BATCH_SIZE)) {
+        await purge({ tags: batch });
+      }
+    },
+    purgeUrls: async (urls) => {
+      for (const batch of chunk(urls, CLOUDFLARE_BATCH_SIZE)) {
+        await purge({ files: batch });
+      }
+    }
+  };
+};
+
+export const createInMemoryPurgeClient = (): InMemoryPurgeClient => {
+  const client: InMemoryPurgeClient = {
+    name: 'memory',
+    purgedTags: [],
+    purgedUrls: [],
+    purgeTags: async (tags) => {
+      client.purgedTags.push(...tags);
+      client.purgedTags.splice(0, client.purgedTags.length - MEMORY_HISTORY_LIMIT);
+      logger.debug({ tags }, 'CDN purge recorded (in-memory client)');
+    },
+    purgeUrls: async (urls) => {
+      client.purgedUrls.push(...urls);
+      client.purgedUrls.splice(0, client.purgedUrls.length - MEMORY_HISTORY_LIMIT);
+      logger.debug({ urls }, 'CDN purge recorded (in-memory client)');
+    },
+    reset: () => {
+      client.purgedTags.length = 0;
+      client.purgedUrls.length = 0;
+    }
+  };
+  return client;
+};
+
+/**
+ * Active purge client, Cloudflare when enabled
+ */
+export const getPurgeClient = (): CdnPurgeClient => {
+  if (!purgeClient) {
+    const { enabled, zoneId, apiToken } = config.cloudflare;
+    purgeClient = enabled && zoneId && apiToken
+      ? createCloudflarePurgeClient(zoneId, apiToken)
+      : createInMemoryPurgeClient();
+  }
+  return purgeClient;
+};
+
+/**
+ * Swap the purge client (tests, alternative CDNs)
+ */
+export const setPurgeClient = (client: CdnPurgeClient): void => {
+  purgeClient = client;
+};
+
+/**
+ * Drop every cached page tagged with one of the keys, in the page cache and at the CDN
+ * e.g. purgeSurrogateKeys(tenantId, [`product_${product.id}`]) after a product update
+ */
+export const purgeSurrogateKeys = async (tenantId: string, keys: string[]): Promise<void> => {
+  if (keys.length === 0) {
+    return;
+  }
+
+  await invalidatePagesByTags(tenantId, keys);
+
+  const client = getPurgeClient();
+  try {
+    await client.purgeTags(cdnSurrogateKeys(tenantId, keys));
+    logger.info({ tenant_id: tenantId, keys, client: client.name }, 'CDN cache purged by surrogate keys');
+  } catch (error) {
+    logger.error({ error, tenant_id: tenantId, keys }, 'Error purging CDN cache');
+    // Don't throw - cache purge failure shouldn't break the app
+  }
+};
+
+/**
+ * Purge CDN cache for tenant: the whole tenant, or only the given paths on each of its domains
+ */
+export const purgeCDNCache = async (tenantId: string, paths?: string[]): Promise<void> => {
+  const client = getPurgeClient();
+
+  try {
+    if (paths && paths.length > 0) {
+      const domains = await getTenantDomains(tenantId);
+      const urls = paths.flatMap(path => /^https?:\/\//.test(path)
+        ? [path]
+        : domains.map(domain => `https://${domain}${path.startsWith('/') ? '' : '/'}${path}`));
+
+      await client.purgeUrls(urls);
+      logger.info({ tenant_id: tenantId, urls: urls.length, client: client.name }, 'CDN cache purged for paths');
+      return;
+    }
+
+    await client.purgeTags([`tenant_${tenantId}`]);
+    logger.info({ tenant_id: tenantId, client: client.name }, 'CDN cache purged successfully');
+  } catch (error) {
+    logger.error({ error, tenant_id: tenantId }, 'Error purging CDN cache');
+    // Don't throw - cache purge failure shouldn't break the app
+  }
+};
@@ -0,0 +1,69 @@
+import { getPage, searchPages, listContentUrls, invalidateContentCache } from './content-service';
+import { getDbPool } from './index';
+import { invalidateTags } from './tagged-cache';
+import { purgeSurrogateKeys } from './cdn-purge';
+import { publishInvalidation } from './invalidation-bus';
+
+jest.mock('./index', () => ({ getDbPool: jest.fn() }));
+jest.mock('./tagged-cache', () => ({
+  cacheGet: jest.fn().mockResolvedValue(null),
+  cacheSet: jest.fn().mockResolvedValue(undefined),
+  invalidateTags: jest.fn().mockResolvedValue(0),
+  cacheTags: { content: (tenantId: string) => `content:${tenantId}` }
+}));
+jest.mock('./cdn-purge', () => ({ purgeSurrogateKeys: jest.fn().mockResolvedValue(undefined) }));
+jest.mock('./invalidation-bus', () => ({ publishInvalidation: jest.fn().mockResolvedValue(undefined) }));
+
+const query = jest.fn();
+(getDbPool as jest.Mock).mockReturnValue({ query });
+
+// pages.tenant_id holds platform.tenants.id, which server.js passes as tenant.id
+const PAGES_OF_TENANT = /\btenant_id = \(SELECT id FROM platform\.tenants WHERE tenant_id = \$1\)/;
+
+beforeEach(() => {
+  query.mockReset();
+  jest.clearAllMocks();
+});
+
+describe('pages table tenant key', () => {
+  it('looks a page up by the tenant row id of the schema key', async () => {
+    query.mockResolvedValue({
+      rows: [{ id: 7, slug: 'about', title: 'About us', content: '<p>Hi</p>', body_html: null }]
+    });
+
+    const page = await getPage('acme', 'about');
+
+    const [sql, params] = query.mock.calls[0];
+    expect(sql).toMatch(PAGES_OF_TENANT);
+    expect(params).toEqual(['acme', 'about']);
+    expect(page).toMatchObject({ handle: 'about', title: 'About us', content: '<p>Hi</p>', url: '/pages/about' });
+  });
+
+  it('returns null for a missing page', async () => {
+    query.mockResolvedValue({ rows: [] });
+    expect(await getPage('acme', 'missing')).toBeNull();
+  });
+
+  it('scopes page search and sitemap URLs the same way', async () => {
+    query.mockResolvedValue({ rows: [] });
+
+    await searchPages('acme', 'ab', 5);
+    await listContentUrls('acme', 'pages', 100, 0);
+
+    for (const [sql, params] of query.mock.calls) {
+      expect(sql).toMatch(PAGES_OF_TENANT);
+      expect(params[0]).toBe('acme');
+    }
+  });
+});
+
+describe('invalidateContentCache', () => {
+  it('drops cached content and purges the pages and sitemaps built from it', async () => {
+    await invalidateContentCache('acme');
+
+    expect(invalidateTags).toHaveBeenCalledWith(['content:acme']);
+    expect(purgeSurrogateKeys).toHaveBeenCalledWith('acme', expect.arrayContaining(['page_page', 'page_article', 'page_policy']));
+    expect(purgeSurrogateKeys).toHaveBeenCalledWith('acme', ['sitemap_index', 'sitemap_pages', 'sitemap_blogs']);
+    expect(publishInvalidation).toHaveBeenCalledWith({ type: 'content', tenantId: 'acme' });
+  });
+});
@@ -0,0 +1,349 @@
+import { getDbPool } from './index';
+import { cacheGet, cacheSet, cacheTags, invalidateTags } from './tagged-cache';
+import { purgeSurrogateKeys } from './cdn-purge';
+import { publishInvalidation } from './invalidation-bus';
+import { logger } from '../utils/logger';
+import { escapeLike } from '../utils/sql';
+import { escapeHtml } from '../utils/html';
+import { config } from '../config';
+
+/**
+ * Online store content: blogs, articles and shop policies
+ * Tables tenant_{id}.blogs, tenant_{id}.articles (blog_id, handle, is_published)
+ * and tenant_{id}.shop_policies (type, title, body). Static pages live in the
+ * shared `pages` table (tenant_id, slug, is_published) also read by server.js;
+ * `content` holds either HTML or the page builder's block JSON.
+ */
+
+// pages.tenant_id references platform.tenants.id (as in server.js), not the tenant_id schema key
+const PAGES_OF_TENANT = 'tenant_id = (SELECT id FROM platform.tenants WHERE tenant_id = $1)';
+
+export interface Blog {
+  id: string;
+  handle: string;
+  title: string;
+}
+
+export interface Article {
+  id: string;
+  blog_id: string;
+  handle: string;
+  title: string;
+  author?: string;
+  content: string;
+  excerpt?: string;
+  image?: string;
+  tags?: string[];
+  published_at?: string;
+}
+
+export interface ShopPolicy {
+  type: string;
+  handle: string;
+  title: string;
+  body: string;
+  url: string;
+  updated_at?: string;
+}
+
+export interface PageBlock {
+  id: string;
+  type: string;
+  settings: Record<string, any>;
+}
+
+export interface Page {
+  id: string;
+  handle: string;
+  title: string;
+  // Body HTML; for block pages, the blocks that have a built-in rendering
+  content: string;
+  blocks: PageBlock[];
+  template_suffix: string | null;
+  seo: { title: string; description: string | null };
+  url: string;
+  published_at?: string;
+  updated_at?: string;
+}
+
+export interface PageSummary {
+  id: string;
+  handle: string;
+  title: string;
+  url: string;
+}
+
+// Storefront URL of a published page or article, with its last change
+export interface ContentUrl {
+  url: string;
+  updated_at: string | null;
+}
+
+export type ContentUrlKind = 'pages' | 'blogs';
+
+// Shopify policy handles under /policies/
+export const POLICY_TYPES = [
+  'privacy-policy',
+  'refund-policy',
+  'shipping-policy',
+  'terms-of-service',
+  'contact-information',
+  'legal-notice',
+  'subscription-policy'
+];
+
+/**
+ * Published article with its blog, or null
+ */
+export const getArticle = async (
+  tenantId: string,
+  blogHandle: string,
+  articleHandle: string
+): Promise<{ blog: Blog; article: Article } | null> => {
+  const cacheKey = `content:article:${tenantId}:${blogHandle}:${articleHandle}`;
+
+  try {
+    const cached = await cacheGet<{ blog: Blog; article: Article } | { missing: true }>(cacheKey);
+    if (cached) {
+      return 'missing' in cached ? null : cached;
+    }
+
+    const result = await getDbPool().query(
+      `SELECT b.id AS blog_id, b.handle AS blog_handle, b.title AS blog_title,
+              a.id, a.handle, a.title, a.author, a.content, a.excerpt, a.image, a.tags, a.published_at
+       FROM tenant_${tenantId}.articles a
+       INNER JOIN tenant_${tenantId}.blogs b ON b.id = a.blog_id
+       WHERE b.handle = $1 AND a.handle = $2 AND a.is_published = true`,
+      [blogHandle, articleHandle]
+    );
+
+    const row = result.rows[0];
+    const found = row
+      ? {
+        blog: { id: row.blog_id, handle: row.blog_handle, title: row.blog_title },
+        article: {
+          id: row.id,
+          blog_id: row.blog_id,
+          handle: row.handle,
+          title: row.title,
+          author: row.author,
+          content: row.content,
+          excerpt: row.excerpt,
+          image: row.image,
+          tags: row.tags,
+          published_at: row.published_at
+        }
+      }
+      : null;
+
+    // Cache misses too, unknown article URLs are a common crawler pattern
+    await cacheSet(cacheKey, found ?? { missing: true }, config.cache.dataCacheTTL, [cacheTags.content(tenantId)]);
+
+    return found;
+  } catch (error) {
+    logger.error({ error, tenant_id: tenantId, blog: blogHandle, article: articleHandle }, 'Error fetching article');
+    throw error;
+  }
+};
+
+/**
+ * Shop policy by handle (e.g. refund-policy), or null when the shop has none
+ */
+export const getPolicy = async (tenantId: string, handle: string): Promise<ShopPolicy | null> => {
+  if (!POLICY_TYPES.includes(handle)) {
+    return null;
+  }
+
+  const cacheKey = `content:policies:${tenantId}`;
+
+  try {
+    let policies = await cacheGet<ShopPolicy[]>(cacheKey);
+
+    if (!policies) {
+      const result = await getDbPool().query(
+        `SELECT type, title, body, updated_at FROM tenant_${tenantId}.shop_policies WHERE body <> ''`
+      );
+      policies = result.rows.map(row => {
+        const policyHandle = String(row.type).replace(/_/g, '-');
+        return { ...row, handle: policyHandle, url: `/policies/${policyHandle}` } as ShopPolicy;
+      });
+
+      await cacheSet(cacheKey, policies, config.cache.dataCacheTTL, [cacheTags.content(tenantId)]);
+    }
+
+    return policies.find(policy => policy.handle === handle) || null;
+  } catch (error) {
+    logger.error({ error, tenant_id: tenantId, policy: handle }, 'Error fetching shop policy');
+    throw error;
+  }
+};
+
+/**
+ * Page builder blocks from `content`, or null when it is plain HTML
+ */
+const parseBlocks = (content: string | null): PageBlock[] | null => {
+  if (!content || !content.trimStart().startsWith('[')) return null;
+  try {
+    const blocks = JSON.parse(content);
+    return Array.isArray(blocks)
+      ? blocks.map((block, index) => ({ id: String(block.id ?? index), type: String(block.type), settings: block.config || {} }))
+      : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+/**
+ * Text and image blocks as plain HTML, so themes printing `page.content` show
+ * something; richer blocks are left to themes through `page.blocks`
+ */
+const blockHtml = ({ type, settings }: PageBlock): string => {
+  switch (type) {
+    case 'text':
+      return `<div class="page-block page-block--text">${settings.heading ? `<h2>${escapeHtml(settings.heading)}</h2>` : ''}${settings.content || ''}</div>`;
+    case 'image': {
+      if (!settings.imageUrl) return '';
+      const image = `<img src="${escapeHtml(settings.imageUrl)}" alt="${escapeHtml(settings.alt || '')}" loading="lazy">`;
+      return `<div class="page-block page-block--image">${settings.link ? `<a href="${escapeHtml(settings.link)}">${image}</a>` : image}</div>`;
+    }
+    default:
+      return '';
+  }
+};
+
+/**
+ * Published page by handle, or null when missing or unpublished
+ */
+export const getPage = async (tenantId: string, handle: string): Promise<Page | null> => {
+  const cacheKey = `content:page:${tenantId}:${handle}`;
+
+  try {
+    const cached = await cacheGet<Page | { missing: true }>(cacheKey);
+    if (cached) {
+      return 'missing' in cached ? null : cached;
+    }
+
+    const result = await getDbPool().query(
+      `SELECT * FROM pages WHERE ${PAGES_OF_TENANT} AND slug = $2 AND is_published = true`,
+      [tenantId, handle]
+    );
+
+    const row = result.rows[0];
+    let page: Page | null = null;
+    if (row) {
+      const blocks = row.body_html ? null : parseBlocks(row.content);
+      page = {
+        id: row.id,
+        handle: row.slug,
+        title: row.title,
+        content: row.body_html ?? (blocks ? blocks.map(blockHtml).join('') : row.content || ''),
+        blocks: blocks || [],
+        template_suffix: row.template_suffix || null,
+        seo: { title: row.seo_title || row.title, description: row.seo_description || null },
+        url: `/pages/${row.slug}`,
+        published_at: row.published_at,
+        updated_at: row.updated_at
+      };
+    }
+
+    await cacheSet(cacheKey, page ?? { missing: true }, config.cache.dataCacheTTL, [cacheTags.content(tenantId)]);
+
+    return page;
+  } catch (error) {
+    logger.error({ error, tenant_id: tenantId, page: handle }, 'Error fetching page');
+    throw error;
+  }
+};
+
+/**
+ * Published pages whose title contains the terms, for predictive search
+ */
+export const searchPages = async (tenantId: string, terms: string, limit: number): Promise<PageSummary[]> => {
+  try {
+    const result = await getDbPool().query(
+      `SELECT id, slug, title FROM pages
+       WHERE ${PAGES_OF_TENANT} AND is_published = true AND title ILIKE $2
+       ORDER BY title
+       LIMIT $3`,
+      [tenantId, `%${escapeLike(terms)}%`, limit]
+    );
+
+    return result.rows.map(row => ({ id: row.id, handle: row.slug, title: row.title, url: `/pages/${row.slug}` }));
+  } catch (error) {
+    logger.error({ error, tenant_id: tenantId }, 'Error searching pages');
+    throw error;
+  }
+};
+
+/**
+ * Published URLs of one content kind; for blogs that is their articles, as
+ * blogs have no listing page of their own
+ */
+const contentUrlQuery = (tenantId: string, kind: ContentUrlKind): { sql: string; params: unknown[] } => (kind === 'pages'
+  ? {
+    sql: `SELECT '/pages/' || slug AS url, updated_at FROM pages WHERE ${PAGES_OF_TENANT} AND is_published = true`,
+    params: [tenantId]
+  }
+  : {
+    sql: `SELECT '/blogs/' || b.handle || '/' || a.handle AS url, a.published_at AS updated_at
+          FROM tenant_${tenantId}.articles a
+          INNER JOIN tenant_${tenantId}.blogs b ON b.id = a.blog_id
+          WHERE a.is_published = true`,
+    params: []
+  });
+
+/**
+ * Number of published content URLs (sitemap pagination)
+ */
+export const countContentUrls = async (tenantId: string, kind: ContentUrlKind): Promise<number> => {
+  const { sql, params } = contentUrlQuery(tenantId, kind);
+
+  try {
+    const result = await getDbPool().query(`SELECT COUNT(*) AS total FROM (${sql}) urls`, params);
+    return Number(result.rows[0]?.total || 0);
+  } catch (error) {
+    logger.error({ error, tenant_id: tenantId, kind }, 'Error counting content URLs');
+    throw error;
+  }
+};
+
+/**
+ * One page of published content URLs, in a stable order
+ */
+export const listContentUrls = async (
+  tenantId: string,
+  kind: ContentUrlKind,
+  limit: number,
+  offset: number
+): Promise<ContentUrl[]> => {
+  const { sql, params } = contentUrlQuery(tenantId, kind);
+
+  try {
+    const result = await getDbPool().query(
+      `SELECT url, updated_at FROM (${sql}) urls ORDER BY url LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, limit, offset]
+    );
+    return result.rows.map(row => ({ url: row.url, updated_at: row.updated_at ?? null }));
+  } catch (error) {
+    logger.error({ error, tenant_id: tenantId, kind }, 'Error listing content URLs');
+    throw error;
+  }
+};
+
+/**
+ * Invalidate pages, blogs, articles and policies (edits, publishing, unpublishing)
+ * Cached lookups, including remembered misses, are dropped along with the
+ * rendered pages built from them; a newly published page may have been a 404.
+ */
+export const invalidateContentCache = async (tenantId: string): Promise<void> => {
+  await invalidateTags([cacheTags.content(tenantId)]);
+
+  await purgeSurrogateKeys(tenantId, ['page_page', 'page_article', 'page_policy', 'page_404']);
+  // Pages and articles may have been published, unpublished or updated (lastmod);
+  // the index lists one child sitemap per page of URLs
+  await purgeSurrogateKeys(tenantId, ['sitemap_index', 'sitemap_pages', 'sitemap_blogs']);
+
+  await publishInvalidation({ type: 'content', tenantId });
+
+  logger.info({ tenant_id: tenantId }, 'Content caches invalidated');
+};
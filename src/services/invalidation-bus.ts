@@ -0,0 +1,127 @@
+import Redis from 'ioredis';
+import { hostname } from 'os';
+import { randomBytes } from 'crypto';
+import { getRedisClient } from './index';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+
+/**
+ * Cross-pod cache invalidation bus (Redis pub/sub)
+ *
+ * Shared state (Redis entries, page cache, CDN) is invalidated once by the pod
+ * handling the change. Each pod also keeps in-memory caches (themes, Liquid
+ * engines); change events are broadcast so every replica evicts its own copy.
+ */
+
+export type InvalidationType = 'tenant' | 'theme' | 'product' | 'collection' | 'content';
+
+export interface InvalidationEvent {
+  type: InvalidationType;
+  tenantId: string;
+  // Resource ids (product ids, collection handles, tenant hosts)
+  ids?: string[];
+  // Pod that published the event
+  origin?: string;
+}
+
+type InvalidationHandler = (event: InvalidationEvent) => void | Promise<void>;
+
+const INVALIDATION_TYPES: InvalidationType[] = ['tenant', 'theme', 'product', 'collection', 'content'];
+
+// Channels are not covered by the ioredis keyPrefix
+const CHANNEL = `${config.redis.keyPrefix}invalidation`;
+
+const podId = `${hostname()}:${process.pid}:${randomBytes(4).toString('hex')}`;
+const handlers = new Map<InvalidationType, InvalidationHandler[]>();
+let subscriber: Redis | undefined;
+
+/**
+ * Register a local cache eviction for one or more event types
+ */
+export const registerInvalidationHandler = (
+  types: InvalidationType | InvalidationType[],
+  handler: InvalidationHandler
+): void => {
+  for (const type of Array.isArray(types) ? types : [types]) {
+    handlers.set(type, [...(handlers.get(type) || []), handler]);
+  }
+};
+
+const applyLocally = async (event: InvalidationEvent) => {
+  for (const handler of handlers.get(event.type) || []) {
+    try {
+      await handler(event);
+    } catch (error) {
+      logger.error({ error, event }, 'Local cache eviction failed');
+    }
+  }
+};
+
+export const isInvalidationType = (value: unknown): value is InvalidationType =>
+  INVALIDATION_TYPES.includes(value as InvalidationType);
+
+/**
+ * Evict local caches on this pod and broadcast the event to all other pods
+ */
+export const publishInvalidation = async (event: InvalidationEvent): Promise<void> => {
+  await applyLocally(event);
+
+  try {
+    await getRedisClient().publish(CHANNEL, JSON.stringify({ ...event, origin: podId }));
+    logger.debug({ event }, 'Invalidation event published');
+  } catch (error) {
+    // Other pods fall back to their memory cache TTL
+    logger.error({ error, event }, 'Error publishing invalidation event');
+  }
+};
+
+const onMessage = (channel: string, message: string) => {
+  if (channel !== CHANNEL) {
+    return;
+  }
+
+  let event: InvalidationEvent;
+  try {
+    event = JSON.parse(message);
+  } catch (error) {
+    logger.warn({ message }, 'Ignoring malformed invalidation event');
+    return;
+  }
+
+  // Already applied when it was published
+  if (event.origin === podId || !isInvalidationType(event.type) || !event.tenantId) {
+    return;
+  }
+
+  logger.debug({ event }, 'Invalidation event received');
+  void applyLocally(event);
+};
+
+/**
+ * Subscribe this pod to the invalidation channel (call after initializeServices)
+ */
+export const startInvalidationBus = async (): Promise<void> => {
+  if (subscriber) {
+    return;
+  }
+
+  // A subscribed connection cannot run other commands
+  subscriber = getRedisClient().duplicate();
+  subscriber.on('message', onMessage);
+  subscriber.on('error', (error) => {
+    logger.error({ error }, 'Invalidation bus connection error');
+  });
+
+  await subscriber.subscribe(CHANNEL);
+  logger.info({ channel: CHANNEL, pod: podId }, 'Invalidation bus subscribed');
+};
+
+export const stopInvalidationBus = async (): Promise<void> => {
+  if (!subscriber) {
+    return;
+  }
+
+  await subscriber.quit();
+  subscriber = undefined;
+  logger.info('Invalidation bus closed');
+};
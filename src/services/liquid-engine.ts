@@ -0,0 +1,120 @@
+import { Liquid, Template } from 'liquidjs';
+import NodeCache from 'node-cache';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { templateCacheRequests, templateParseDuration, templateParseSecondsSaved } from '../utils/metrics';
+import { registerCustomFilters } from './liquid-filters';
+import { registerThemeTags } from './liquid-tags';
+import { createThemeFileSystem } from './theme-fs';
+import { RenderLimits } from './render-limits';
+import type { Theme } from './theme-service';
+
+interface CompiledTemplate {
+  templates: Template[];
+  parseSeconds: number;
+}
+
+// One Liquid engine per tenant theme version
+const engineCache = new NodeCache({
+  stdTTL: config.cache.themesCacheTTL,
+  checkperiod: 600,
+  useClones: false
+});
+
+// Parsed template sources per engine, released together with the engine
+const compiledTemplates = new WeakMap<Liquid, Map<string, CompiledTemplate>>();
+
+/**
+ * Map theme files to the paths used by the in-memory file system
+ */
+const themeFiles = (theme: Theme): Record<string, string> => {
+  const files: Record<string, string> = { ...(theme.files || {}) };
+  for (const [name, source] of Object.entries(theme.templates || {})) {
+    files[`templates/${name}.liquid`] = source;
+  }
+  return files;
+};
+
+/**
+ * Create an uncached Liquid engine for a theme (used for previews of themes
+ * whose files may change without a version bump)
+ */
+export const createThemeEngine = (theme: Theme, limits?: RenderLimits): Liquid => {
+  const liquid = new Liquid({
+    fs: createThemeFileSystem(themeFiles(theme)),
+    root: ['.'],
+    partials: ['snippets'],
+    layouts: ['layout'],
+    extname: '.liquid',
+    relativeReference: false,
+    cache: true,
+    strictFilters: true,
+    strictVariables: false,
+    // An undefined limit would override liquidjs' unlimited default
+    ...(limits && {
+      parseLimit: limits.parseLimit,
+      renderLimit: limits.renderLimit,
+      memoryLimit: limits.memoryLimit
+    })
+  });
+
+  registerCustomFilters(liquid);
+  registerThemeTags(liquid, theme.settings || {});
+
+  return liquid;
+};
+
+/**
+ * Get the Liquid engine for a tenant's theme.
+ * `render`/`include`/`section` only resolve against that theme's files, and
+ * the tenant plan's limits apply to every parse and render.
+ */
+export const getLiquidForTheme = (tenantId: string, theme: Theme, limits?: RenderLimits): Liquid => {
+  const cacheKey = `${tenantId}:${theme.id}:${theme.version}:${limits?.parseLimit ?? 'default'}`;
+
+  let liquid = engineCache.get<Liquid>(cacheKey);
+  if (!liquid) {
+    liquid = createThemeEngine(theme, limits);
+    engineCache.set(cacheKey, liquid);
+    logger.debug({ tenant_id: tenantId, theme_id: theme.id, version: theme.version }, 'Liquid engine created');
+  }
+
+  return liquid;
+};
+
+/**
+ * Get the parsed form of a theme template source.
+ * Engines are per tenant + theme version, so together with the template path
+ * this caches per tenant, version and template.
+ */
+export const getCompiledTemplate = (liquid: Liquid, filepath: string, source: string): Template[] => {
+  let templates = compiledTemplates.get(liquid);
+  if (!templates) {
+    templates = new Map();
+    compiledTemplates.set(liquid, templates);
+  }
+
+  const cached = templates.get(filepath);
+  if (cached) {
+    templateCacheRequests.inc({ result: 'hit' });
+    templateParseSecondsSaved.inc(cached.parseSeconds);
+    return cached.templates;
+  }
+
+  const endTimer = templateParseDuration.startTimer();
+  const parsed = liquid.parse(source, filepath);
+  const parseSeconds = endTimer();
+
+  templates.set(filepath, { templates: parsed, parseSeconds });
+  templateCacheRequests.inc({ result: 'miss' });
+
+  return parsed;
+};
+
+/**
+ * Drop all Liquid engines and compiled templates of a tenant (call after theme update)
+ */
+export const evictLiquidForTenant = (tenantId: string): void => {
+  const prefix = `${tenantId}:`;
+  engineCache.del(engineCache.keys().filter(key => key.startsWith(prefix)));
+};
@@ -0,0 +1,124 @@
+import { Liquid } from 'liquidjs';
+import { registerCustomFilters, formatMoney } from './liquid-filters';
+
+const liquid = new Liquid();
+registerCustomFilters(liquid);
+
+const render = (template: string, context: Record<string, unknown> = {}) =>
+  liquid.parseAndRender(template, context);
+
+describe('money filters', () => {
+  it('formats with the tenant money format', async () => {
+    const shop = { money_format: '${{amount}}', money_with_currency_format: '${{amount}} USD' };
+    expect(await render('{{ 123456 | money }}', { shop })).toBe('$1,234.56');
+    expect(await render('{{ 123456 | money_with_currency }}', { shop })).toBe('$1,234.56 USD');
+    expect(await render('{{ 1500 | money_without_trailing_zeros }} {{ 1550 | money_without_trailing_zeros }}', { shop }))
+      .toBe('$15 $15.50');
+  });
+
+  it('applies the separators of each amount placeholder', () => {
+    expect(formatMoney(123456789, { money_format: '{{amount_with_comma_separator}} €' })).toBe('1.234.567,89 €');
+    expect(formatMoney(123456789, { money_format: '{{amount_no_decimals_with_space_separator}} kr' })).toBe('1 234 568 kr');
+    expect(formatMoney(123456789, { money_format: "CHF {{amount_with_apostrophe_separator}}" })).toBe("CHF 1'234'567.89");
+  });
+
+  it('formats negative amounts', () => {
+    expect(formatMoney(-123456, { money_format: '${{amount}}' })).toBe('-$1,234.56');
+    expect(formatMoney(-123456, { money_format: '{{amount_with_comma_separator}} €' })).toBe('-1.234,56 €');
+    expect(formatMoney(-123456, { currency: 'NOPE', locale: 'en-US' })).toBe('-1,234.56');
+    expect(formatMoney(-123456, { currency: 'USD', locale: 'en-US' })).toBe('-$1,234.56');
+  });
+
+  it('drops the minus sign from amounts that round to zero', () => {
+    expect(formatMoney(-5, { currency: 'JPY', locale: 'en-US' })).toBe('¥0');
+    expect(formatMoney(-5, { money_format: '¥{{amount_no_decimals}}' })).toBe('¥0');
+  });
+
+  it('formats zero-decimal currencies without fractions', () => {
+    expect(formatMoney(500000, { currency: 'JPY', locale: 'en-US' })).toBe('¥5,000');
+    expect(formatMoney(-500000, { currency: 'JPY', locale: 'en-US' })).toBe('-¥5,000');
+    expect(formatMoney(500000, { currency: 'JPY', locale: 'en-US' }, { withCurrency: true })).toBe('¥5,000 JPY');
+  });
+
+  it('falls back to plain formatting for unknown currencies', () => {
+    expect(formatMoney(123456, { currency: 'NOPE', locale: 'en-US' })).toBe('1,234.56');
+  });
+});
+
+describe('date filter', () => {
+  const date = '2024-03-01T22:30:00Z';
+
+  it('uses the tenant timezone', async () => {
+    expect(await render('{{ date | date: "%Y-%m-%d %H:%M" }}', { date, shop: { timezone: 'Asia/Tokyo' } }))
+      .toBe('2024-03-02 07:30');
+  });
+
+  it('defaults to UTC and lets templates pass a timezone', async () => {
+    expect(await render('{{ date | date: "%Y-%m-%d %H:%M" }}', { date })).toBe('2024-03-01 22:30');
+    expect(await render('{{ date | date: "%H:%M", "America/New_York" }}', { date, shop: { timezone: 'Asia/Tokyo' } }))
+      .toBe('17:30');
+  });
+});
+
+describe('image filters', () => {
+  const image = { src: 'products/shirt.jpg' };
+
+  it('builds CDN URLs from named img_url sizes', async () => {
+    expect(await render('{{ image | img_url }}', { image })).toBe('https://cdn.example.com/images/300x300/products/shirt.jpg');
+    expect(await render('{{ image | img_url: "original" }}', { image })).toBe('https://cdn.example.com/images/original/products/shirt.jpg');
+    expect(await render('{{ image | img_url: "200x" }}', { image })).toBe('https://cdn.example.com/images/200x/products/shirt.jpg');
+  });
+
+  it('sizes image_url with width and height', async () => {
+    expect(await render('{{ image | image_url: width: 400 }}', { image })).toBe('https://cdn.example.com/images/400x/products/shirt.jpg');
+    expect(await render('{{ "https://img.test/a.jpg?v=1" | image_url: width: 400, height: 300 }}'))
+      .toBe('https://img.test/a.jpg?v=1&width=400&height=300');
+  });
+
+  it('renders nothing without an image', async () => {
+    expect(await render('{{ missing | img_url }}|{{ missing | image_url: width: 100 }}')).toBe('|');
+  });
+});
+
+describe('default_pagination filter', () => {
+  const paginate = {
+    current_page: 2,
+    previous: { title: 'Previous', url: '/collections/all?page=1' },
+    next: { title: 'Next', url: '/collections/all?page=3' },
+    parts: [
+      { title: 1, url: '/collections/all?page=1', is_link: true },
+      { title: 2, is_link: false },
+      { title: '…', is_link: false },
+      { title: 9, url: '/collections/all?page=9', is_link: true }
+    ]
+  };
+
+  it('renders links, the current page and gaps', async () => {
+    expect(await render('{{ paginate | default_pagination }}', { paginate })).toBe([
+      '<span class="prev"><a href="/collections/all?page=1">&laquo; Previous</a></span>',
+      '<span class="page"><a href="/collections/all?page=1">1</a></span>',
+      '<span class="page current">2</span>',
+      '<span class="deco">…</span>',
+      '<span class="page"><a href="/collections/all?page=9">9</a></span>',
+      '<span class="next"><a href="/collections/all?page=3">Next &raquo;</a></span>'
+    ].join(' '));
+  });
+
+  it('escapes custom labels', async () => {
+    const output = await render('{{ paginate | default_pagination: previous: "<", next: "Next >" }}', { paginate });
+    expect(output).toContain('>&lt;</a>');
+    expect(output).toContain('>Next &gt;</a>');
+  });
+});
+
+describe('text filters', () => {
+  it('handleizes strings, numbers and nil', async () => {
+    expect(await render('{{ "Hello, World!" | handleize }}')).toBe('hello-world');
+    expect(await render('{{ 42 | handleize }}|{{ missing | handleize }}')).toBe('42|');
+  });
+
+  it('keeps the builtin truncate with its ending argument', async () => {
+    expect(await render('{{ "The quick brown fox" | truncate: 10 }}')).toBe('The qui...');
+    expect(await render('{{ "The quick brown fox" | truncate: 10, "" }}')).toBe('The quick ');
+  });
+});
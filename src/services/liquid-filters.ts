@@ -0,0 +1,277 @@
+import { Context, Liquid, filters } from 'liquidjs';
+import { config } from '../config';
+import { escapeHtml, safeJson } from '../utils/html';
+
+interface FilterImpl {
+  context: Context;
+}
+
+const builtinDate = filters.date as (this: FilterImpl, value: unknown, ...args: unknown[]) => string;
+
+interface ShopFormatting {
+  currency?: string;
+  money_format?: string;
+  money_with_currency_format?: string;
+  locale?: string;
+  timezone?: string;
+}
+
+interface PaginationLink {
+  title: string | number;
+  url?: string;
+  is_link?: boolean;
+}
+
+interface Paginate {
+  current_page?: number;
+  previous?: PaginationLink;
+  next?: PaginationLink;
+  parts?: PaginationLink[];
+}
+
+// Shopify money format placeholders: [precision, thousands separator, decimal separator]
+const AMOUNT_STYLES: Record<string, [number, string, string]> = {
+  amount: [2, ',', '.'],
+  amount_no_decimals: [0, ',', '.'],
+  amount_with_comma_separator: [2, '.', ','],
+  amount_no_decimals_with_comma_separator: [0, '.', ','],
+  amount_with_apostrophe_separator: [2, "'", '.'],
+  amount_with_space_separator: [2, ' ', ','],
+  amount_no_decimals_with_space_separator: [0, ' ', ',']
+};
+
+// Named image sizes (legacy `img_url` sizes)
+const IMAGE_SIZES: Record<string, string> = {
+  pico: '16x16',
+  icon: '32x32',
+  thumb: '50x50',
+  small: '100x100',
+  compact: '160x160',
+  medium: '300x300',
+  large: '600x600',
+  grande: '600x600',
+  original: 'original',
+  master: 'original'
+};
+
+const getShop = (filter: FilterImpl): ShopFormatting => {
+  return (filter.context.getSync(['shop']) as ShopFormatting) || {};
+};
+
+/**
+ * Liquid passes keyword arguments (`width: 300`) as [name, value] tuples
+ */
+const namedArgs = (args: unknown[]): Record<string, any> => {
+  const named: Record<string, any> = {};
+  for (const arg of args) {
+    if (Array.isArray(arg) && arg.length === 2 && typeof arg[0] === 'string') {
+      named[arg[0]] = arg[1];
+    }
+  }
+  return named;
+};
+
+// Digits of an amount, without its sign
+const formatAmount = (cents: number, precision: number, thousands: string, decimal: string): string => {
+  const [integer, fraction] = (Math.abs(cents) / 100).toFixed(precision).split('.');
+  const grouped = integer.replace(/\B(?=(\d{3})+(?!\d))/g, thousands);
+  return `${grouped}${fraction ? decimal + fraction : ''}`;
+};
+
+// Amounts that round to zero print without a minus sign
+const isNegative = (cents: number, precision: number): boolean =>
+  cents < 0 && Number((Math.abs(cents) / 100).toFixed(precision)) !== 0;
+
+/**
+ * Format an amount in cents using the tenant's money format.
+ * Falls back to Intl currency formatting for the tenant's currency and locale.
+ */
+export const formatMoney = (
+  value: unknown,
+  shop: ShopFormatting,
+  options: { withCurrency?: boolean; trimZeros?: boolean } = {}
+): string => {
+  const cents = Number(value) || 0;
+  const currency = shop.currency || config.storefront.defaultCurrency;
+  const precision = options.trimZeros && cents % 100 === 0 ? 0 : undefined;
+  const format = options.withCurrency ? shop.money_with_currency_format : shop.money_format;
+
+  if (format) {
+    let negative = false;
+    const formatted = format.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder: string, name: string) => {
+      const style = AMOUNT_STYLES[name];
+      if (!style) {
+        return placeholder;
+      }
+      const digits = precision ?? style[0];
+      negative = negative || isNegative(cents, digits);
+      return formatAmount(cents, digits, style[1], style[2]);
+    });
+    // Like Shopify, the sign goes before the whole amount: -$1,234.56
+    return negative ? `-${formatted}` : formatted;
+  }
+
+  let formatted: string;
+  try {
+    const numberFormat = new Intl.NumberFormat(shop.locale || config.storefront.defaultLocale, {
+      style: 'currency',
+      currency,
+      minimumFractionDigits: precision,
+      maximumFractionDigits: precision
+    });
+    // Zero-decimal currencies (JPY) round small amounts to zero: no "-¥0"
+    const digits = numberFormat.resolvedOptions().maximumFractionDigits ?? 2;
+    const amount = Math.abs(cents / 100) < 0.5 / 10 ** digits ? 0 : cents / 100;
+    formatted = numberFormat.format(amount);
+  } catch (error) {
+    // Unknown locale or currency code in tenant data
+    formatted = `${isNegative(cents, precision ?? 2) ? '-' : ''}${formatAmount(cents, precision ?? 2, ',', '.')}`;
+  }
+
+  return options.withCurrency ? `${formatted} ${currency}` : formatted;
+};
+
+const imageSrc = (image: unknown): string => {
+  if (!image) return '';
+  if (typeof image === 'string') return image;
+  const record = image as { src?: string; url?: string };
+  return record.src || record.url || '';
+};
+
+export const buildImageUrl = (image: unknown, width?: number, height?: number): string => {
+  const src = imageSrc(image);
+  if (!src) return '';
+
+  // Absolute URLs are resized by the image CDN through query parameters
+  if (/^(https?:)?\/\//.test(src)) {
+    const params = new URLSearchParams();
+    if (width) params.set('width', String(width));
+    if (height) params.set('height', String(height));
+    const query = params.toString();
+    return query ? `${src}${src.includes('?') ? '&' : '?'}${query}` : src;
+  }
+
+  const dimensions = width || height ? `${width || ''}x${height || ''}` : 'original';
+  return `${config.storefront.imageCdnUrl}/${dimensions}/${src.replace(/^\/+/, '')}`;
+};
+
+const renderPagination = (paginate: Paginate, previousLabel: string, nextLabel: string): string => {
+  const parts: string[] = [];
+
+  if (paginate.previous?.url) {
+    parts.push(`<span class="prev"><a href="${escapeHtml(paginate.previous.url)}">${previousLabel}</a></span>`);
+  }
+
+  for (const part of paginate.parts || []) {
+    if (part.is_link && part.url) {
+      parts.push(`<span class="page"><a href="${escapeHtml(part.url)}">${escapeHtml(part.title)}</a></span>`);
+    } else if (String(part.title) === String(paginate.current_page)) {
+      parts.push(`<span class="page current">${escapeHtml(part.title)}</span>`);
+    } else {
+      parts.push(`<span class="deco">${escapeHtml(part.title)}</span>`);
+    }
+  }
+
+  if (paginate.next?.url) {
+    parts.push(`<span class="next"><a href="${escapeHtml(paginate.next.url)}">${nextLabel}</a></span>`);
+  }
+
+  return parts.join(' ');
+};
+
+/**
+ * Register custom Liquid filters for Shopify-like functionality.
+ * Tenant specific formatting (currency, money format, locale, timezone) is read
+ * from the `shop` object of the current render context.
+ */
+export const registerCustomFilters = (liquid: Liquid) => {
+  // Money formatting
+  liquid.registerFilter('money', function (this: FilterImpl, value: number) {
+    return formatMoney(value, getShop(this));
+  });
+
+  liquid.registerFilter('money_with_currency', function (this: FilterImpl, value: number) {
+    return formatMoney(value, getShop(this), { withCurrency: true });
+  });
+
+  liquid.registerFilter('money_without_trailing_zeros', function (this: FilterImpl, value: number) {
+    return formatMoney(value, getShop(this), { trimZeros: true });
+  });
+
+  // Dates in the tenant's timezone
+  liquid.registerFilter('date', function (this: FilterImpl, value: string | Date, format?: string, timezone?: string | number) {
+    return builtinDate.call(this, value, format, timezone ?? getShop(this).timezone ?? config.storefront.defaultTimezone);
+  });
+
+  // Theme assets, fingerprinted by theme version (served by routes/assets)
+  liquid.registerFilter('asset_url', function (this: FilterImpl, file: string) {
+    const theme = (this.context.getSync(['theme']) as { version?: string; preview_query?: string }) || {};
+    const path = String(file).replace(/^\/+/, '').split('/').map(encodeURIComponent).join('/');
+    const url = `/cdn/shop/t/${encodeURIComponent(String(theme.version ?? 'current'))}/assets/${path}`;
+    return theme.preview_query ? `${url}?${theme.preview_query}` : url;
+  });
+
+  liquid.registerFilter('stylesheet_tag', (url: string, media: string = 'all') => {
+    return `<link href="${escapeHtml(url)}" rel="stylesheet" type="text/css" media="${escapeHtml(media)}" />`;
+  });
+
+  liquid.registerFilter('script_tag', (url: string) => {
+    return `<script src="${escapeHtml(url)}" type="text/javascript"></script>`;
+  });
+
+  // Image URL generation
+  liquid.registerFilter('img_url', (image: unknown, size: string = 'medium') => {
+    const dimensions = IMAGE_SIZES[size] || size;
+    if (dimensions === 'original') {
+      return buildImageUrl(image);
+    }
+    const [width, height] = dimensions.split('x').map(part => parseInt(part, 10) || undefined);
+    return buildImageUrl(image, width, height);
+  });
+
+  liquid.registerFilter('image_url', (image: unknown, ...args: unknown[]) => {
+    const { width, height } = namedArgs(args);
+    return buildImageUrl(image, Number(width) || undefined, Number(height) || undefined);
+  });
+
+  // URL generation
+  liquid.registerFilter('product_url', (handle: string) => {
+    return `/products/${handle}`;
+  });
+
+  liquid.registerFilter('collection_url', (handle: string) => {
+    return `/collections/${handle}`;
+  });
+
+  liquid.registerFilter('link_to', (text: string, url: string, title?: string) => {
+    const titleAttr = title ? ` title="${escapeHtml(title)}"` : '';
+    return `<a href="${escapeHtml(url)}"${titleAttr}>${text ?? ''}</a>`;
+  });
+
+  liquid.registerFilter('default_pagination', (paginate: Paginate, ...args: unknown[]) => {
+    if (!paginate) return '';
+    const labels = namedArgs(args);
+    return renderPagination(
+      paginate,
+      labels.previous ? escapeHtml(labels.previous) : '&laquo; Previous',
+      labels.next ? escapeHtml(labels.next) : 'Next &raquo;'
+    );
+  });
+
+  // Text helpers
+  liquid.registerFilter('pluralize', (count: number, singular: string, plural: string) => {
+    return Number(count) === 1 ? singular : plural;
+  });
+
+  liquid.registerFilter('json', (value: unknown) => {
+    return safeJson(value);
+  });
+
+  // Handle generation
+  liquid.registerFilter('handleize', (str: unknown) => {
+    return String(str ?? '')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-|-$/g, '');
+  });
+};
@@ -0,0 +1,163 @@
+import {
+  Context,
+  Emitter,
+  Liquid,
+  Parser,
+  Tag,
+  TagToken,
+  TopLevelToken,
+  ValueToken,
+  Template,
+  TypeGuards,
+  evalToken
+} from 'liquidjs';
+import { Pagination, buildPagination, pageFromQuery, paginatorOf } from '../utils/pagination';
+
+interface ThemeSettings {
+  sections?: Record<string, { type?: string; settings?: Record<string, unknown> }>;
+}
+
+const SECTION_NAME = /^[\w-]+$/;
+// Paginated expressions that can be replaced by the current page, e.g. collection.products
+const VARIABLE_PATH = /^[\w-]+(?:\.[\w-]+)*$/;
+const MAX_PAGE_SIZE = 50;
+
+/**
+ * Copy of `target` with the value at `keys` replaced
+ */
+const replaceAt = (target: unknown, keys: string[], value: unknown): unknown => {
+  if (keys.length === 0) return value;
+  const [key, ...rest] = keys;
+  const base = (target && typeof target === 'object' ? target : {}) as Record<string, unknown>;
+  return { ...base, [key]: replaceAt(base[key], rest, value) };
+};
+
+/**
+ * One page of an array that was loaded whole, using the request's ?page=
+ */
+const slicePage = (items: unknown[], pageSize: number, ctx: Context): { items: unknown[]; paginate: Pagination } => {
+  const request = (ctx.getSync(['request']) || {}) as { path?: string; query?: Record<string, unknown> };
+  const query = request.query || {};
+  const paginate = buildPagination({
+    path: request.path || '/',
+    query,
+    total: items.length,
+    page: pageFromQuery(query, Number.MAX_SAFE_INTEGER),
+    pageSize
+  });
+  return { items: items.slice(paginate.current_offset, paginate.current_offset + pageSize), paginate };
+};
+
+/**
+ * Register theme tags that are not part of core Liquid
+ */
+export const registerThemeTags = (liquid: Liquid, settings: ThemeSettings = {}) => {
+  const sectionData = settings.sections || {};
+
+  /**
+   * {% section 'header' %}
+   * Renders sections/header.liquid with its own `section` object in scope
+   */
+  class SectionTag extends Tag {
+    private value: ValueToken;
+
+    constructor(token: TagToken, remainTokens: TopLevelToken[], liquid: Liquid) {
+      super(token, remainTokens, liquid);
+      const value = this.tokenizer.readValue();
+      if (!value) {
+        throw new Error(`Missing section name in "${token.getText()}"`);
+      }
+      this.value = value;
+    }
+
+    *render(ctx: Context, emitter: Emitter): Generator<unknown, void, unknown> {
+      const name = String(yield evalToken(this.value, ctx));
+      if (!SECTION_NAME.test(name)) {
+        throw new Error(`Illegal section name "${name}"`);
+      }
+
+      const templates = (yield this.liquid._parseFile(`sections/${name}`, ctx.sync)) as Template[];
+      const data = sectionData[name] || {};
+
+      ctx.push({
+        section: {
+          id: name,
+          type: data.type || name,
+          settings: data.settings || {}
+        }
+      });
+
+      emitter.write(`<div id="shopify-section-${name}" class="shopify-section">`);
+      yield this.liquid.renderer.renderTemplates(templates, ctx, emitter);
+      emitter.write('</div>');
+
+      ctx.pop();
+    }
+  }
+
+  /**
+   * {% paginate collection.products by 12 %} ... {% endpaginate %}
+   * Inside the block `paginate` describes the current page and the paginated
+   * expression holds only that page's items. Listings loaded by a route are
+   * fetched again at the requested size; other arrays are sliced.
+   */
+  class PaginateTag extends Tag {
+    private items: ValueToken;
+    private pageSize: ValueToken;
+    private path?: string[];
+    private templates: Template[] = [];
+
+    constructor(token: TagToken, remainTokens: TopLevelToken[], liquid: Liquid, parser: Parser) {
+      super(token, remainTokens, liquid);
+      const items = this.tokenizer.readValue();
+      this.tokenizer.skipBlank();
+      const by = this.tokenizer.readIdentifier();
+      const pageSize = this.tokenizer.readValue();
+      if (!items || by.content !== 'by' || !pageSize) {
+        throw new Error(`Expected "paginate <array> by <page size>" in "${token.getText()}"`);
+      }
+      this.items = items;
+      this.pageSize = pageSize;
+
+      const expression = items.getText();
+      if (VARIABLE_PATH.test(expression)) {
+        this.path = expression.split('.');
+      }
+
+      while (remainTokens.length) {
+        const next = remainTokens.shift() as TopLevelToken;
+        if (TypeGuards.isTagToken(next) && next.name === 'endpaginate') return;
+        this.templates.push(parser.parseToken(next, remainTokens));
+      }
+      throw new Error(`tag ${token.getText()} not closed`);
+    }
+
+    *render(ctx: Context, emitter: Emitter): Generator<unknown, void, unknown> {
+      const items = yield evalToken(this.items, ctx);
+      const pageSize = Number(yield evalToken(this.pageSize, ctx));
+      if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+        throw new Error(`Invalid paginate page size ${pageSize}, expected 1 to ${MAX_PAGE_SIZE}`);
+      }
+
+      const paginator = paginatorOf(items);
+      const page = (paginator
+        ? yield paginator(pageSize)
+        : slicePage(Array.isArray(items) ? items : [], pageSize, ctx)) as { items: unknown[]; paginate: Pagination };
+
+      const [root, ...rest] = this.path || [];
+      ctx.push({
+        paginate: page.paginate,
+        ...(root && { [root]: replaceAt(ctx.getSync([root]), rest, page.items) })
+      });
+      yield this.liquid.renderer.renderTemplates(this.templates, ctx, emitter);
+      ctx.pop();
+    }
+
+    *children(): Generator<unknown, Template[]> {
+      return this.templates;
+    }
+  }
+
+  liquid.registerTag('section', SectionTag);
+  liquid.registerTag('paginate', PaginateTag);
+};
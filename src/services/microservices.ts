@@ -5,8 +5,10 @@
 
 import axios from 'axios';
 import { logger } from '../utils/logger';
-import { getRedisClient } from './index';
+import { cacheGet, cacheSet, cacheTags } from './tagged-cache';
+import { singleFlight, withRefillLock } from './single-flight';
 import { config } from '../config';
+import { UpstreamUnavailableError } from '../middleware/error-handler';
 
 // Service URLs (Kubernetes internal DNS)
 const SERVICES = {
@@ -18,7 +20,7 @@ const SERVICES = {
   analytics: 'http://analytics-service.platform-services.svc.cluster.local',
 };
 
-interface Product {
+export interface Product {
   id: string;
   tenant_id: string;
   title: string;
@@ -31,7 +33,20 @@ interface Product {
   status: string;
   images?: string[];
   tags?: string[];
+  vendor?: string;
+  product_type?: string;
+  variants?: ProductVariant[];
   created_at: string;
+  updated_at?: string;
+}
+
+interface ProductVariant {
+  id: string;
+  title: string;
+  price: number;
+  compare_at_price?: number;
+  sku?: string;
+  available?: boolean;
 }
 
 interface CartItem {
@@ -49,57 +64,135 @@ interface CheckoutData {
   discount_code?: string;
 }
 
+export interface ProductQuery {
+  handle?: string;
+  limit?: number;
+  offset?: number;
+  search?: string;
+  sort_by?: string;
+  // Products in this collection, in the collection's order unless sort_by is set
+  collection_id?: string;
+  // Facet filters, values are OR-ed within a facet and AND-ed across facets
+  vendor?: string[];
+  product_type?: string[];
+  tag?: string[];
+  price_min?: number; // cents
+  price_max?: number; // cents
+  // Ask products-service for facet counts over the whole result set
+  facets?: boolean;
+}
+
+export interface FacetValue {
+  value: string;
+  count: number;
+}
+
+export interface ProductFacets {
+  vendor?: FacetValue[];
+  product_type?: FacetValue[];
+  tag?: FacetValue[];
+  price?: { min: number; max: number };
+}
+
+export type ProductListing = { products: Product[]; total: number; facets?: ProductFacets };
+
 /**
- * Get products from products-service with caching
+ * Call products-service and cache the listing
  */
-export const getProductsFromService = async (
+const fetchProductsFromService = async (
   tenantId: string,
-  options: { handle?: string; limit?: number; offset?: number; search?: string } = {}
-): Promise<{ products: Product[]; total: number }> => {
+  options: ProductQuery,
+  cacheKey: string
+): Promise<ProductListing> => {
+  // Build query params
+  const params = new URLSearchParams({
+    tenant_id: tenantId,
+    status: 'active', // Only show active products on storefront
+    limit: String(options.limit || 20),
+    offset: String(options.offset || 0),
+  });
+  
+  if (options.handle) {
+    params.append('handle', options.handle);
+  }
+  if (options.search) {
+    params.append('search', options.search);
+  }
+  if (options.sort_by) {
+    params.append('sort_by', options.sort_by);
+  }
+  if (options.collection_id) {
+    params.append('collection_id', options.collection_id);
+  }
+  for (const facet of ['vendor', 'product_type', 'tag'] as const) {
+    for (const value of options[facet] || []) {
+      params.append(facet, value);
+    }
+  }
+  if (options.price_min !== undefined) {
+    params.append('price_min', String(options.price_min));
+  }
+  if (options.price_max !== undefined) {
+    params.append('price_max', String(options.price_max));
+  }
+  if (options.facets) {
+    params.append('facets', 'vendor,product_type,tag,price');
+  }
+  
+  // Call products-service
+  const response = await axios.get(
+    `${SERVICES.products}/api/products?${params}`,
+    { timeout: 5000 }
+  );
+  
+  const data = response.data;
+  
+  // Cache for 2 minutes (shorter TTL for storefront); collection listings also change with membership
+  await cacheSet(cacheKey, data, 120, options.collection_id
+    ? [cacheTags.productLists(tenantId), cacheTags.collectionLists(tenantId)]
+    : [cacheTags.productLists(tenantId)]);
+  
+  logger.info({ 
+    tenant_id: tenantId, 
+    count: data.products?.length || 0,
+    service: 'products-service'
+  }, 'Products fetched from microservice');
+  
+  return data;
+};
+
+/**
+ * Cached listing, or a products-service call; throws when the service fails
+ * (for callers that must not mistake an outage for an empty catalog, e.g. sitemaps)
+ * Concurrent misses share one call; across pods one refills the key while the others wait.
+ */
+export const loadProducts = (tenantId: string, options: ProductQuery): Promise<ProductListing> => {
   const cacheKey = `storefront:products:${tenantId}:${JSON.stringify(options)}`;
   
-  try {
+  return singleFlight('products', cacheKey, async () => {
     // Check cache
-    const redis = getRedisClient();
-    const cached = await redis.get(cacheKey);
+    const cached = await cacheGet<ProductListing>(cacheKey);
     if (cached) {
       logger.debug({ tenant_id: tenantId, options }, 'Storefront products cache hit');
-      return JSON.parse(cached);
-    }
-    
-    // Build query params
-    const params = new URLSearchParams({
-      tenant_id: tenantId,
-      status: 'active', // Only show active products on storefront
-      limit: String(options.limit || 20),
-      offset: String(options.offset || 0),
-    });
-    
-    if (options.handle) {
-      params.append('handle', options.handle);
+      return cached;
     }
-    if (options.search) {
-      params.append('search', options.search);
-    }
-    
-    // Call products-service
-    const response = await axios.get(
-      `${SERVICES.products}/api/products?${params}`,
-      { timeout: 5000 }
-    );
     
-    const data = response.data;
-    
-    // Cache for 2 minutes (shorter TTL for storefront)
-    await redis.setex(cacheKey, 120, JSON.stringify(data));
-    
-    logger.info({ 
-      tenant_id: tenantId, 
-      count: data.products?.length || 0,
-      service: 'products-service'
-    }, 'Products fetched from microservice');
-    
-    return data;
+    return withRefillLock('products', cacheKey,
+      () => cacheGet<ProductListing>(cacheKey),
+      () => fetchProductsFromService(tenantId, options, cacheKey));
+  });
+};
+
+/**
+ * Get products from products-service with caching
+ * Listings degrade to empty when the service is unavailable.
+ */
+export const getProductsFromService = async (
+  tenantId: string,
+  options: ProductQuery = {}
+): Promise<ProductListing> => {
+  try {
+    return await loadProducts(tenantId, options);
   } catch (error: any) {
     logger.error({ 
       error: error.message, 
@@ -123,26 +216,32 @@ export const getProductByHandle = async (
   const cacheKey = `storefront:product:${tenantId}:${handle}`;
   
   try {
-    // Check cache
-    const redis = getRedisClient();
-    const cached = await redis.get(cacheKey);
-    if (cached) {
-      return JSON.parse(cached);
-    }
-    
-    // Get products with this handle
-    const result = await getProductsFromService(tenantId, { handle, limit: 1 });
-    const product = result.products[0] || null;
-    
-    if (product) {
-      // Cache for 5 minutes
-      await redis.setex(cacheKey, 300, JSON.stringify(product));
-    }
-    
-    return product;
+    // Concurrent misses for the same product share one lookup
+    return await singleFlight('product', cacheKey, async () => {
+      // Check cache
+      const cached = await cacheGet<Product>(cacheKey);
+      if (cached) {
+        return cached;
+      }
+      
+      // Get products with this handle
+      const result = await loadProducts(tenantId, { handle, limit: 1 });
+      const product = result.products[0] || null;
+      
+      if (product) {
+        // Cache for 5 minutes
+        await cacheSet(cacheKey, product, 300, [
+          cacheTags.products(tenantId),
+          cacheTags.product(tenantId, product.id)
+        ]);
+      }
+      
+      return product;
+    });
   } catch (error) {
     logger.error({ error, tenant_id: tenantId, handle }, 'Error fetching product by handle');
-    return null;
+    // Not a 404: a missing product page would be cached while the service is down
+    throw new UpstreamUnavailableError('Product service unavailable');
   }
 };
 
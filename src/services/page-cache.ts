@@ -0,0 +1,151 @@
+import { createHash } from 'crypto';
+import { cacheGet, cacheSet, cacheTags, invalidateTags } from './tagged-cache';
+import { acquireLock, releaseLock } from './single-flight';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+
+export interface CachedPage {
+  html: string;
+  routeType: string;
+  themeVersion: string;
+  surrogateKeys: string[];
+  renderedAt: number;
+}
+
+interface PageCacheEntry extends CachedPage {
+  freshUntil: number;
+}
+
+interface PageCacheKeyParts {
+  tenantId: string;
+  themeVersion: string;
+  // Canonical host: pages embed absolute URLs
+  host: string;
+  path: string;
+  query: Record<string, unknown>;
+  locale?: string;
+  currency?: string;
+}
+
+// Query parameters the storefront routes read; only these vary a cached page
+const KEYED_QUERY_PARAMS = /^(page|sort_by|variant|q|filter\.[a-z0-9_.]+)$/i;
+
+// Query parameters that never change the rendered page
+const IGNORED_QUERY_PARAMS = /^(utm_[a-z]+|fbclid|gclid|msclkid|_ga|_gl|mc_cid|mc_eid|ref)$/i;
+
+// Pages currently re-rendering in this process
+const refreshing = new Set<string>();
+
+/**
+ * Whether a page can come from the cache: any query parameter other than the
+ * routes' own and tracking ones bypasses it, so arbitrary parameters can't fill
+ * Redis with copies of the same page
+ */
+export const isCacheableQuery = (query: Record<string, unknown>): boolean =>
+  Object.keys(query).every(name => KEYED_QUERY_PARAMS.test(name) || IGNORED_QUERY_PARAMS.test(name));
+
+/**
+ * Sorted parameters the routes read, so equivalent URLs share an entry
+ */
+export const normalizeQuery = (query: Record<string, unknown>): string => {
+  const params: [string, string][] = [];
+
+  for (const [name, value] of Object.entries(query)) {
+    if (!KEYED_QUERY_PARAMS.test(name) || value === undefined) continue;
+    const values = Array.isArray(value) ? value : [value];
+    for (const item of values) {
+      params.push([name, typeof item === 'string' ? item : JSON.stringify(item)]);
+    }
+  }
+
+  params.sort(([a, aValue], [b, bValue]) => a.localeCompare(b) || aValue.localeCompare(bValue));
+  return new URLSearchParams(params).toString();
+};
+
+/**
+ * Cache key for a rendered page: tenant, theme version, host, path, normalized query, locale and currency
+ */
+export const buildPageCacheKey = (parts: PageCacheKeyParts): string => {
+  const variant = [
+    parts.themeVersion,
+    parts.host,
+    parts.locale || '',
+    parts.currency || '',
+    parts.path,
+    normalizeQuery(parts.query)
+  ].join('|');
+
+  return `page:${parts.tenantId}:${createHash('sha1').update(variant).digest('hex')}`;
+};
+
+/**
+ * Look up a rendered page. Stale entries are still returned (marked stale)
+ * until their grace period ends.
+ */
+export const getCachedPage = async (key: string): Promise<{ page: CachedPage; stale: boolean } | null> => {
+  try {
+    const entry = await cacheGet<PageCacheEntry>(key);
+    if (!entry) {
+      return null;
+    }
+
+    return { page: entry, stale: Date.now() > entry.freshUntil };
+  } catch (error) {
+    logger.warn({ error, key }, 'Page cache read failed');
+    return null;
+  }
+};
+
+/**
+ * Store a rendered page and index it under its tags
+ */
+export const storeCachedPage = async (key: string, tenantId: string, page: CachedPage, tags: string[]): Promise<void> => {
+  const { pageFreshTTL, pageStaleTTL } = config.cache;
+  const entry: PageCacheEntry = { ...page, freshUntil: Date.now() + pageFreshTTL * 1000 };
+  const ttl = pageFreshTTL + pageStaleTTL;
+
+  try {
+    await cacheSet(key, entry, ttl, tags.map(tag => cacheTags.page(tenantId, tag)));
+  } catch (error) {
+    logger.warn({ error, key }, 'Page cache write failed');
+  }
+};
+
+/**
+ * Re-render a stale page once: per process via an in-flight set, across pods via a Redis lock
+ */
+export const refreshInBackground = (key: string, render: () => Promise<void>): void => {
+  if (refreshing.has(key)) {
+    return;
+  }
+  refreshing.add(key);
+
+  const refresh = async () => {
+    const lockKey = `${key}:refresh`;
+    const token = await acquireLock(lockKey, 30000);
+    if (!token) {
+      return;
+    }
+
+    try {
+      await render();
+      logger.debug({ key }, 'Stale page refreshed');
+    } finally {
+      await releaseLock(lockKey, token);
+    }
+  };
+
+  refresh()
+    .catch(error => logger.warn({ error, key }, 'Background page refresh failed'))
+    .finally(() => refreshing.delete(key));
+};
+
+/**
+ * Drop all cached pages of a tenant carrying any of the given tags
+ * (same tags as the Surrogate-Key header, e.g. `tenant_<id>`, `page_product`)
+ */
+export const invalidatePagesByTags = async (tenantId: string, tags: string[]): Promise<number> => {
+  const removed = await invalidateTags(tags.map(tag => cacheTags.page(tenantId, tag)));
+  logger.info({ tenant_id: tenantId, tags, removed }, 'Page cache invalidated');
+  return removed;
+};
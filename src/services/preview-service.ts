@@ -0,0 +1,78 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { config } from '../config';
+import { escapeHtml } from '../utils/html';
+
+/**
+ * Signed theme preview tokens
+ * Format: `<expires>.<signature>` where the signature is an HMAC-SHA256 of
+ * tenant, theme and expiry, so a token only unlocks one theme of one store.
+ * Previews are disabled until PREVIEW_TOKEN_SECRET is configured.
+ */
+
+export const previewsEnabled = (): boolean => Boolean(config.security.previewSecret);
+
+const sign = (tenantId: string, themeId: string, expires: number): string => {
+  if (!config.security.previewSecret) {
+    throw new Error('Theme previews are disabled: PREVIEW_TOKEN_SECRET is not configured');
+  }
+
+  return createHmac('sha256', config.security.previewSecret)
+    .update(`${tenantId}:${themeId}:${expires}`)
+    .digest('base64url');
+};
+
+/**
+ * Create a preview token (used by the admin when sharing a preview link)
+ */
+export const createPreviewToken = (
+  tenantId: string,
+  themeId: string,
+  ttlSeconds: number = config.security.previewTokenTTL
+): string => {
+  const expires = Math.floor(Date.now() / 1000) + ttlSeconds;
+  return `${expires}.${sign(tenantId, themeId, expires)}`;
+};
+
+/**
+ * Build a storefront preview URL for an unpublished theme
+ */
+export const createPreviewUrl = (baseUrl: string, tenantId: string, themeId: string, ttlSeconds?: number): string => {
+  const url = new URL(baseUrl);
+  url.searchParams.set('preview_theme_id', themeId);
+  url.searchParams.set('preview_token', createPreviewToken(tenantId, themeId, ttlSeconds));
+  return url.toString();
+};
+
+/**
+ * Verify a preview token for a tenant's theme (signature and expiry)
+ */
+export const verifyPreviewToken = (tenantId: string, themeId: string, token: string): boolean => {
+  if (!previewsEnabled()) {
+    return false;
+  }
+
+  const [expiresPart, signature] = token.split('.');
+  const expires = Number(expiresPart);
+
+  if (!signature || !Number.isInteger(expires) || expires < Math.floor(Date.now() / 1000)) {
+    return false;
+  }
+
+  const expected = Buffer.from(sign(tenantId, themeId, expires));
+  const received = Buffer.from(signature);
+
+  return expected.length === received.length && timingSafeEqual(expected, received);
+};
+
+/**
+ * Insert the preview bar into a rendered page
+ */
+export const injectPreviewBar = (html: string, theme: { name?: string; role?: string }, exitUrl: string): string => {
+  const bar = `<div id="theme-preview-bar" style="position:fixed;bottom:0;left:0;right:0;z-index:2147483647;padding:10px 16px;background:#1f2937;color:#fff;font:14px/1.4 -apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,sans-serif;display:flex;justify-content:space-between;align-items:center">`
+    + `<span>Previewing theme <strong>${escapeHtml(theme.name || '')}</strong>${theme.role === 'main' ? '' : ' (unpublished)'}</span>`
+    + `<a href="${escapeHtml(exitUrl)}" style="color:#fff">Exit preview</a>`
+    + '</div>';
+
+  const bodyEnd = html.toLowerCase().lastIndexOf('</body>');
+  return bodyEnd === -1 ? html + bar : html.slice(0, bodyEnd) + bar + html.slice(bodyEnd);
+};
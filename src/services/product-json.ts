@@ -0,0 +1,102 @@
+import { Product } from './microservices';
+import { buildImageUrl } from './liquid-filters';
+
+/**
+ * Product JSON for theme JavaScript (Shopify's AJAX product endpoints)
+ *   /products/:handle.json, /products.json, /collections/:handle/products.json
+ *     -> productJson: prices as decimal strings, tags as an array
+ *   /products/:handle.js
+ *     -> ajaxProductJson: prices in cents, min/max ranges, image URLs
+ * Fields are listed explicitly so internal columns (tenant_id, inventory
+ * counts) never leak. Shapes are frozen per version: add fields freely, but
+ * renaming or removing one means a new PRODUCT_JSON_VERSION.
+ */
+
+export const PRODUCT_JSON_VERSION = 1;
+
+const decimal = (cents: unknown): string => ((Number(cents) || 0) / 100).toFixed(2);
+
+const optionalDecimal = (cents: unknown): string | null =>
+  cents === null || cents === undefined ? null : decimal(cents);
+
+const variantsOf = (product: Product) => product.variants || [];
+
+// Products without variants are available while they have stock
+const isAvailable = (product: Product): boolean => {
+  const variants = variantsOf(product);
+  return variants.length > 0
+    ? variants.some(variant => variant.available !== false)
+    : product.inventory_qty > 0;
+};
+
+const imageUrls = (product: Product): string[] =>
+  (product.images || []).map(image => buildImageUrl(image)).filter(Boolean);
+
+/**
+ * products.json / product.json shape
+ */
+export const productJson = (product: Product) => ({
+  id: product.id,
+  title: product.title,
+  handle: product.handle,
+  body_html: product.description || '',
+  vendor: product.vendor || null,
+  product_type: product.product_type || null,
+  tags: product.tags || [],
+  created_at: product.created_at,
+  updated_at: product.updated_at || product.created_at,
+  available: isAvailable(product),
+  variants: variantsOf(product).map((variant, index) => ({
+    id: variant.id,
+    product_id: product.id,
+    title: variant.title,
+    sku: variant.sku || null,
+    price: decimal(variant.price),
+    compare_at_price: optionalDecimal(variant.compare_at_price),
+    available: variant.available !== false,
+    position: index + 1
+  })),
+  images: imageUrls(product).map((src, index) => ({ src, position: index + 1 }))
+});
+
+/**
+ * product.js shape, as Liquid sees the product: money in cents
+ */
+export const ajaxProductJson = (product: Product) => {
+  const variants = variantsOf(product);
+  const prices = variants.length > 0 ? variants.map(variant => Number(variant.price) || 0) : [Number(product.price) || 0];
+  const compareAtPrices = (variants.length > 0 ? variants.map(variant => variant.compare_at_price) : [product.compare_at_price])
+    .filter((price): price is number => price !== null && price !== undefined)
+    .map(Number);
+  const images = imageUrls(product);
+
+  return {
+    id: product.id,
+    title: product.title,
+    handle: product.handle,
+    description: product.description || '',
+    vendor: product.vendor || null,
+    type: product.product_type || null,
+    tags: product.tags || [],
+    url: `/products/${product.handle}`,
+    created_at: product.created_at,
+    available: isAvailable(product),
+    price: Math.min(...prices),
+    price_min: Math.min(...prices),
+    price_max: Math.max(...prices),
+    price_varies: Math.min(...prices) !== Math.max(...prices),
+    compare_at_price: compareAtPrices.length > 0 ? Math.min(...compareAtPrices) : null,
+    compare_at_price_min: compareAtPrices.length > 0 ? Math.min(...compareAtPrices) : null,
+    compare_at_price_max: compareAtPrices.length > 0 ? Math.max(...compareAtPrices) : null,
+    variants: variants.map(variant => ({
+      id: variant.id,
+      title: variant.title,
+      sku: variant.sku || null,
+      price: Number(variant.price) || 0,
+      compare_at_price: variant.compare_at_price ?? null,
+      available: variant.available !== false
+    })),
+    images,
+    featured_image: images[0] || null
+  };
+};
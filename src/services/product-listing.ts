@@ -0,0 +1,232 @@
+import { loadProducts, Product, ProductFacets, ProductQuery, FacetValue } from './microservices';
+import { buildPagination, pageFromQuery, urlWithQuery, withPaginator } from '../utils/pagination';
+import { UpstreamUnavailableError } from '../middleware/error-handler';
+import { logger } from '../utils/logger';
+
+/**
+ * Sorting and facet filtering shared by product listing pages (search, collections)
+ * Query parameters follow Shopify's storefront filtering:
+ *   sort_by=price-ascending
+ *   filter.p.vendor=Acme&filter.p.vendor=Other
+ *   filter.p.product_type=Shirts
+ *   filter.p.tag=sale
+ *   filter.v.price.gte=10&filter.v.price.lte=50   (shop currency, major units)
+ */
+
+export interface SortOption {
+  value: string;
+  name: string;
+}
+
+type ListFacet = 'vendor' | 'product_type' | 'tag';
+
+export type ProductFilters = Pick<ProductQuery, ListFacet | 'price_min' | 'price_max'>;
+
+export const LISTING_PAGE_SIZE = 24;
+
+export const SORT_OPTIONS: SortOption[] = [
+  { value: 'price-ascending', name: 'Price, low to high' },
+  { value: 'price-descending', name: 'Price, high to low' },
+  { value: 'title-ascending', name: 'Alphabetically, A-Z' },
+  { value: 'title-descending', name: 'Alphabetically, Z-A' },
+  { value: 'created-descending', name: 'Date, new to old' },
+  { value: 'created-ascending', name: 'Date, old to new' }
+];
+
+export const SEARCH_SORT_OPTIONS: SortOption[] = [{ value: 'relevance', name: 'Relevance' }, ...SORT_OPTIONS];
+
+export const COLLECTION_SORT_OPTIONS: SortOption[] = [{ value: 'manual', name: 'Featured' }, ...SORT_OPTIONS];
+
+// Sorts that leave the order to products-service: search relevance, the collection's own order
+const SERVICE_ORDER_SORTS = new Set(['relevance', 'manual']);
+
+const LIST_FILTERS: { key: ListFacet; param: string; label: string }[] = [
+  { key: 'vendor', param: 'filter.p.vendor', label: 'Vendor' },
+  { key: 'product_type', param: 'filter.p.product_type', label: 'Product type' },
+  { key: 'tag', param: 'filter.p.tag', label: 'Tag' }
+];
+
+const PRICE_PARAM = 'filter.v.price';
+const PRICE_MIN_PARAM = 'filter.v.price.gte';
+const PRICE_MAX_PARAM = 'filter.v.price.lte';
+
+// Bounds on user supplied filter values
+const MAX_VALUES_PER_FILTER = 20;
+const MAX_VALUE_LENGTH = 100;
+
+const queryValues = (value: unknown): string[] =>
+  (Array.isArray(value) ? value : [value])
+    .filter((item): item is string => typeof item === 'string' && item.length > 0 && item.length <= MAX_VALUE_LENGTH)
+    .slice(0, MAX_VALUES_PER_FILTER);
+
+const priceInCents = (value: unknown): number | undefined => {
+  const [raw] = queryValues(value);
+  const amount = raw === undefined ? NaN : parseFloat(raw.replace(',', '.'));
+  return Number.isFinite(amount) && amount >= 0 ? Math.round(amount * 100) : undefined;
+};
+
+/**
+ * Requested sort order, or the default when missing or unknown
+ */
+export const sortFromQuery = (query: Record<string, unknown>, options: SortOption[], defaultSort: string): string => {
+  const [requested] = queryValues(query.sort_by);
+  return options.some(option => option.value === requested) ? requested : defaultSort;
+};
+
+/**
+ * Facet filters from the query string, prices converted to cents
+ */
+export const filtersFromQuery = (query: Record<string, unknown>): ProductFilters => {
+  const filters: ProductFilters = {};
+
+  for (const { key, param } of LIST_FILTERS) {
+    const values = queryValues(query[param]);
+    if (values.length > 0) filters[key] = values;
+  }
+
+  const min = priceInCents(query[PRICE_MIN_PARAM]);
+  const max = priceInCents(query[PRICE_MAX_PARAM]);
+  if (min !== undefined) filters.price_min = min;
+  if (max !== undefined) filters.price_max = max;
+
+  return filters;
+};
+
+/**
+ * Facet counts from the products of one page, for services that don't return facets
+ */
+const facetsFromProducts = (products: Product[]): ProductFacets => {
+  const count = (values: (string | undefined)[]): FacetValue[] => {
+    const counts = new Map<string, number>();
+    for (const value of values) {
+      if (value) counts.set(value, (counts.get(value) || 0) + 1);
+    }
+    return [...counts].map(([value, total]) => ({ value, count: total })).sort((a, b) => a.value.localeCompare(b.value));
+  };
+  const prices = products.map(product => Number(product.price)).filter(Number.isFinite);
+
+  return {
+    vendor: count(products.map(product => product.vendor)),
+    product_type: count(products.map(product => product.product_type)),
+    tag: count(products.flatMap(product => product.tags || [])),
+    price: prices.length > 0 ? { min: Math.min(...prices), max: Math.max(...prices) } : undefined
+  };
+};
+
+/**
+ * Liquid `filters` array (Shopify Filter objects). Every value carries the URL
+ * that adds or removes it, so filters round-trip through the query string.
+ * Changing a filter always returns to the first page.
+ */
+export const buildFilters = (
+  path: string,
+  query: Record<string, unknown>,
+  applied: ProductFilters,
+  products: Product[],
+  facets?: ProductFacets
+) => {
+  const available = facets || facetsFromProducts(products);
+  const withQuery = (changes: Record<string, string[] | undefined>) => urlWithQuery(path, query, { ...changes, page: undefined });
+
+  const listFilters = LIST_FILTERS.map(({ key, param, label }) => {
+    const active = applied[key] || [];
+    const counts = new Map((available[key] || []).map(facet => [facet.value, facet.count]));
+    // Active values stay listed even when the current results have none left
+    for (const value of active) if (!counts.has(value)) counts.set(value, 0);
+
+    const values = [...counts].map(([value, count]) => {
+      const isActive = active.includes(value);
+      return {
+        label: value,
+        value,
+        count,
+        active: isActive,
+        param_name: param,
+        url_to_add: withQuery({ [param]: isActive ? active : [...active, value] }),
+        url_to_remove: withQuery({ [param]: active.filter(item => item !== value) })
+      };
+    });
+
+    return {
+      label,
+      param_name: param,
+      type: 'list',
+      values,
+      active_values: values.filter(value => value.active),
+      url_to_remove: withQuery({ [param]: undefined })
+    };
+  });
+
+  // Values in cents like product prices, so themes can use the money filters
+  const priceFilter = {
+    label: 'Price',
+    param_name: PRICE_PARAM,
+    type: 'price_range',
+    min_value: { param_name: PRICE_MIN_PARAM, value: applied.price_min ?? null },
+    max_value: { param_name: PRICE_MAX_PARAM, value: applied.price_max ?? null },
+    range_max: available.price?.max ?? null,
+    url_to_remove: withQuery({ [PRICE_MIN_PARAM]: undefined, [PRICE_MAX_PARAM]: undefined })
+  };
+
+  return [...listFilters.filter(filter => filter.values.length > 0), priceFilter];
+};
+
+/**
+ * One page of a sorted, filtered product listing, with its `paginate` object
+ * and Liquid filters. The products carry a paginator so a theme's
+ * `{% paginate %}` tag can ask for a different page size.
+ * A product-service outage is an error rather than an empty listing, so the
+ * page isn't cached as if the collection were empty.
+ */
+export const loadProductListing = async (options: {
+  tenantId: string;
+  path: string;
+  query: Record<string, unknown>;
+  // Listing scope, e.g. { search } or { collection_id }
+  scope: ProductQuery;
+  sortOptions: SortOption[];
+  defaultSort: string;
+}) => {
+  const { tenantId, path, query, scope, sortOptions, defaultSort } = options;
+  const page = pageFromQuery(query);
+  const sortBy = sortFromQuery(query, sortOptions, defaultSort);
+  const filters = filtersFromQuery(query);
+
+  const fetchPage = async (pageSize: number) => {
+    const productQuery: ProductQuery = {
+      ...scope,
+      ...filters,
+      sort_by: SERVICE_ORDER_SORTS.has(sortBy) ? undefined : sortBy,
+      limit: pageSize,
+      offset: (page - 1) * pageSize,
+      facets: true
+    };
+
+    let result;
+    try {
+      result = await loadProducts(tenantId, productQuery);
+    } catch (error) {
+      logger.error({ error, tenant_id: tenantId, query: productQuery }, 'Error fetching product listing');
+      throw new UpstreamUnavailableError('Product service unavailable');
+    }
+    return { result, paginate: buildPagination({ path, query, total: result.total, page, pageSize }) };
+  };
+
+  const { result, paginate } = await fetchPage(LISTING_PAGE_SIZE);
+
+  const products = withPaginator(result.products, async pageSize => {
+    if (pageSize === LISTING_PAGE_SIZE) {
+      return { items: result.products, paginate };
+    }
+    const resized = await fetchPage(pageSize);
+    return { items: resized.result.products, paginate: resized.paginate };
+  });
+
+  return {
+    products,
+    total: result.total,
+    sortBy,
+    filters: buildFilters(path, query, filters, result.products, result.facets),
+    paginate
+  };
+};
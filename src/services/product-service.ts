@@ -1,5 +1,10 @@
-import { getDbPool, getRedisClient } from './index';
+import { getDbPool } from './index';
+import { cacheGet, cacheSet, cacheTags, invalidateTags } from './tagged-cache';
+import { invalidatePagesByTags } from './page-cache';
+import { purgeSurrogateKeys } from './cdn-purge';
+import { publishInvalidation } from './invalidation-bus';
 import { logger } from '../utils/logger';
+import { escapeLike } from '../utils/sql';
 import { config } from '../config';
 
 interface Product {
@@ -33,6 +38,7 @@ interface Collection {
   description?: string;
   published: boolean;
   product_count?: number;
+  updated_at?: string;
 }
 
 interface ProductQueryOptions {
@@ -57,11 +63,10 @@ export const getProducts = async (
   
   try {
     // Check cache
-    const redis = getRedisClient();
-    const cached = await redis.get(cacheKey);
+    const cached = await cacheGet<Product[]>(cacheKey);
     if (cached) {
       logger.debug({ tenant_id: tenantId, options }, 'Products cache hit');
-      return JSON.parse(cached);
+      return cached;
     }
     
     // Build query
@@ -109,8 +114,10 @@ export const getProducts = async (
     
     const products = result.rows as Product[];
     
-    // Cache for 5 minutes
-    await redis.setex(cacheKey, config.cache.dataCacheTTL, JSON.stringify(products));
+    // Cache for 5 minutes; collection listings also change with collection membership
+    await cacheSet(cacheKey, products, config.cache.dataCacheTTL, collection_id
+      ? [cacheTags.productLists(tenantId), cacheTags.collectionLists(tenantId)]
+      : [cacheTags.productLists(tenantId)]);
     
     logger.debug({ tenant_id: tenantId, count: products.length }, 'Products fetched from database');
     
@@ -126,19 +133,18 @@ export const getProducts = async (
  */
 export const getCollections = async (
   tenantId: string,
-  options: { handle?: string; limit?: number; offset?: number } = {}
+  options: { handle?: string; search?: string; limit?: number; offset?: number } = {}
 ): Promise<Collection[]> => {
-  const { handle, limit = 20, offset = 0 } = options;
+  const { handle, search, limit = 20, offset = 0 } = options;
   
   const cacheKey = `collections:${tenantId}:${JSON.stringify(options)}`;
   
   try {
     // Check cache
-    const redis = getRedisClient();
-    const cached = await redis.get(cacheKey);
+    const cached = await cacheGet<Collection[]>(cacheKey);
     if (cached) {
       logger.debug({ tenant_id: tenantId, options }, 'Collections cache hit');
-      return JSON.parse(cached);
+      return cached;
     }
     
     // Build query
@@ -159,6 +165,12 @@ export const getCollections = async (
       paramIndex++;
     }
     
+    if (search) {
+      query += ` AND c.title ILIKE $${paramIndex}`;
+      params.push(`%${escapeLike(search)}%`);
+      paramIndex++;
+    }
+    
     query += ` ORDER BY c.created_at DESC`;
     query += ` LIMIT $${paramIndex} OFFSET $${paramIndex + 1}`;
     params.push(limit, offset);
@@ -169,7 +181,9 @@ export const getCollections = async (
     const collections = result.rows as Collection[];
     
     // Cache for 5 minutes
-    await redis.setex(cacheKey, config.cache.dataCacheTTL, JSON.stringify(collections));
+    await cacheSet(cacheKey, collections, config.cache.dataCacheTTL, handle
+      ? [cacheTags.collections(tenantId), cacheTags.collection(tenantId, handle)]
+      : [cacheTags.collectionLists(tenantId)]);
     
     logger.debug({ tenant_id: tenantId, count: collections.length }, 'Collections fetched from database');
     
@@ -180,26 +194,69 @@ export const getCollections = async (
   }
 };
 
+/**
+ * Number of published collections (sitemap pagination)
+ */
+export const countCollections = async (tenantId: string): Promise<number> => {
+  try {
+    const result = await getDbPool().query(
+      `SELECT COUNT(*) AS total FROM tenant_${tenantId}.collections WHERE published = true`
+    );
+    return Number(result.rows[0]?.total || 0);
+  } catch (error) {
+    logger.error({ error, tenant_id: tenantId }, 'Error counting collections');
+    throw error;
+  }
+};
+
 /**
  * Invalidate product/collection caches
+ * With product ids only the pages that used those products are dropped.
  */
-export const invalidateProductCache = async (tenantId: string): Promise<void> => {
-  const redis = getRedisClient();
-  
-  // Delete all product and collection cache keys for this tenant
-  const pattern = `${config.redis.keyPrefix}products:${tenantId}:*`;
-  const keys = await redis.keys(pattern);
+export const invalidateProductCache = async (tenantId: string, productIds?: string[]): Promise<void> => {
+  // Listings, searches and collection product counts, plus the changed products
+  await invalidateTags([
+    cacheTags.productLists(tenantId),
+    cacheTags.collectionLists(tenantId),
+    cacheTags.collections(tenantId),
+    ...(productIds?.length
+      ? productIds.map(id => cacheTags.product(tenantId, id))
+      : [cacheTags.products(tenantId)])
+  ]);
   
-  if (keys.length > 0) {
-    await redis.del(...keys);
+  if (productIds?.length) {
+    await purgeSurrogateKeys(tenantId, productIds.map(id => `product_${id}`));
+  } else {
+    // Rendered pages that list products
+    await invalidatePagesByTags(tenantId, ['page_home', 'page_product', 'page_collection']);
   }
+  // Products may have been added, removed or updated (lastmod)
+  await purgeSurrogateKeys(tenantId, ['sitemap_index', 'sitemap_products']);
   
-  const collectionPattern = `${config.redis.keyPrefix}collections:${tenantId}:*`;
-  const collectionKeys = await redis.keys(collectionPattern);
+  await publishInvalidation({ type: 'product', tenantId, ids: productIds });
   
-  if (collectionKeys.length > 0) {
-    await redis.del(...collectionKeys);
+  logger.info({ tenant_id: tenantId, product_ids: productIds }, 'Product caches invalidated');
+};
+
+/**
+ * Invalidate collection caches (membership, sort order, publication changes)
+ */
+export const invalidateCollectionCache = async (tenantId: string, handles?: string[]): Promise<void> => {
+  await invalidateTags([
+    cacheTags.collectionLists(tenantId),
+    ...(handles?.length
+      ? handles.map(handle => cacheTags.collection(tenantId, handle))
+      : [cacheTags.collections(tenantId)])
+  ]);
+  
+  if (handles?.length) {
+    await purgeSurrogateKeys(tenantId, handles.map(handle => `collection_${handle}`));
+  } else {
+    await invalidatePagesByTags(tenantId, ['page_home', 'page_collection']);
   }
+  await purgeSurrogateKeys(tenantId, ['sitemap_index', 'sitemap_collections']);
+  
+  await publishInvalidation({ type: 'collection', tenantId, ids: handles });
   
-  logger.info({ tenant_id: tenantId }, 'Product caches invalidated');
+  logger.info({ tenant_id: tenantId, handles }, 'Collection caches invalidated');
 };
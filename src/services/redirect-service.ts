@@ -0,0 +1,417 @@
+import { randomUUID } from 'crypto';
+import { PoolClient } from 'pg';
+import NodeCache from 'node-cache';
+import { getDbPool } from './index';
+import { cacheGet, cacheSet, cacheTags, invalidateTags } from './tagged-cache';
+import { singleFlight } from './single-flight';
+import { purgeSurrogateKeys } from './cdn-purge';
+import { logger } from '../utils/logger';
+import { parseCsv } from '../utils/csv';
+
+/**
+ * Merchant URL redirects, evaluated before a storefront 404
+ * Table tenant_{id}.url_redirects (path, target, match_type, status_code),
+ * unique on (path, match_type).
+ *
+ *   exact     /old-page          -> /pages/about
+ *   prefix    /old-shop          -> /collections/all   (/old-shop/a -> /collections/all/a)
+ *   wildcard  /old-blog/*        -> /blogs/news/$1      (each * captures any characters)
+ *
+ * Exact rules win over prefixes (longest first), prefixes over wildcards.
+ * 410 rules have no target and answer Gone.
+ */
+
+export type RedirectMatch = 'exact' | 'prefix' | 'wildcard';
+export type RedirectStatus = 301 | 302 | 410;
+
+export interface RedirectRule {
+  path: string;
+  target: string | null;
+  match: RedirectMatch;
+  status: RedirectStatus;
+}
+
+export interface RedirectResult {
+  status: RedirectStatus;
+  // Absent for 410
+  location?: string;
+}
+
+export interface RedirectValidationError {
+  line?: number;
+  path?: string;
+  message: string;
+}
+
+interface CompiledRedirects {
+  exact: Map<string, RedirectRule>;
+  prefixes: { rule: RedirectRule; prefix: string }[];
+  // Wildcard paths split on "*", lowercased
+  wildcards: { rule: RedirectRule; parts: string[] }[];
+}
+
+// Rules as cached in Redis; the version changes whenever they are reloaded
+interface RedirectSet {
+  version: string;
+  rules: RedirectRule[];
+}
+
+const MATCH_TYPES: RedirectMatch[] = ['exact', 'prefix', 'wildcard'];
+const STATUSES: RedirectStatus[] = [301, 302, 410];
+
+const MAX_PATH_LENGTH = 2048;
+const MAX_WILDCARDS = 3;
+export const MAX_IMPORT_RULES = 10000;
+// Chains longer than this are rejected as probable loops
+const MAX_HOPS = 5;
+
+const CACHE_TTL = 3600;
+
+// Compiled rule sets per tenant, reused while the cached rules keep their version
+const compiledCache = new NodeCache({ stdTTL: CACHE_TTL, checkperiod: 600, useClones: false });
+
+/**
+ * Lowercased, without a trailing slash; redirects match case-insensitively
+ */
+const normalizePath = (path: string): string => {
+  const trimmed = path.length > 1 ? path.replace(/\/+$/, '') : path;
+  return trimmed.toLowerCase();
+};
+
+const compile = (rules: RedirectRule[]): CompiledRedirects => ({
+  exact: new Map(rules.filter(rule => rule.match === 'exact').map(rule => [normalizePath(rule.path), rule])),
+  prefixes: rules
+    .filter(rule => rule.match === 'prefix')
+    .sort((a, b) => b.path.length - a.path.length)
+    .map(rule => ({ rule, prefix: normalizePath(rule.path) })),
+  wildcards: rules
+    .filter(rule => rule.match === 'wildcard')
+    .map(rule => ({ rule, parts: normalizePath(rule.path).split('*') }))
+});
+
+/**
+ * Captures of a wildcard pattern, or null. Each "*" takes the shortest run up to
+ * the next literal part (the last takes the rest); a left-to-right scan without
+ * backtracking, linear in the path length.
+ */
+const matchWildcard = (parts: string[], path: string): string[] | null => {
+  const subject = path.toLowerCase();
+  const first = parts[0];
+  const last = parts[parts.length - 1];
+  if (!subject.startsWith(first)) {
+    return null;
+  }
+
+  const captures: string[] = [];
+  let position = first.length;
+  for (const part of parts.slice(1, -1)) {
+    const index = subject.indexOf(part, position);
+    if (index === -1) return null;
+    captures.push(path.slice(position, index));
+    position = index + part.length;
+  }
+
+  const end = subject.length - last.length;
+  if (end < position || !subject.endsWith(last)) {
+    return null;
+  }
+  captures.push(path.slice(position, end));
+  return captures;
+};
+
+/**
+ * Target path of the first rule matching `path`
+ */
+const resolve = (compiled: CompiledRedirects, path: string): { rule: RedirectRule; target: string | null } | null => {
+  const normalized = normalizePath(path);
+
+  const exact = compiled.exact.get(normalized);
+  if (exact) {
+    return { rule: exact, target: exact.target };
+  }
+
+  for (const { rule, prefix } of compiled.prefixes) {
+    if (normalized === prefix || normalized.startsWith(prefix === '/' ? '/' : `${prefix}/`)) {
+      // Keep the remainder with its original casing
+      const remainder = path.replace(/\/+$/, '').slice(prefix === '/' ? 0 : prefix.length);
+      return { rule, target: rule.target && `${rule.target.replace(/\/+$/, '')}${remainder}` };
+    }
+  }
+
+  for (const { rule, parts } of compiled.wildcards) {
+    const captures = matchWildcard(parts, path.length > 1 ? path.replace(/\/+$/, '') : path);
+    if (captures) {
+      return { rule, target: rule.target && rule.target.replace(/\$(\d)/g, (ref, index) => captures[Number(index) - 1] ?? '') };
+    }
+  }
+
+  return null;
+};
+
+const fromRow = (row: any): RedirectRule => ({
+  path: row.path,
+  target: row.target || null,
+  match: row.match_type,
+  status: Number(row.status_code) as RedirectStatus
+});
+
+/**
+ * Redirect rules of a tenant with their version, cached the same way tenant lookups are
+ */
+const getRedirectSet = async (tenantId: string): Promise<RedirectSet> => {
+  const cacheKey = `redirects:${tenantId}`;
+
+  try {
+    return await singleFlight('redirects', cacheKey, async () => {
+      const cached = await cacheGet<RedirectSet>(cacheKey);
+      if (cached?.rules) {
+        return cached;
+      }
+
+      const result = await getDbPool().query(
+        `SELECT path, target, match_type, status_code FROM tenant_${tenantId}.url_redirects ORDER BY id`
+      );
+      const set: RedirectSet = { version: randomUUID(), rules: result.rows.map(fromRow) };
+
+      await cacheSet(cacheKey, set, CACHE_TTL, [cacheTags.redirects(tenantId)]);
+
+      logger.debug({ tenant_id: tenantId, count: set.rules.length }, 'Redirects loaded from database');
+
+      return set;
+    });
+  } catch (error) {
+    logger.error({ error, tenant_id: tenantId }, 'Error loading redirects');
+    throw error;
+  }
+};
+
+/**
+ * All redirect rules of a tenant
+ */
+export const getRedirects = async (tenantId: string): Promise<RedirectRule[]> =>
+  (await getRedirectSet(tenantId)).rules;
+
+/**
+ * Compiled rules of a tenant; recompiled only when the cached rules were reloaded
+ */
+const getCompiledRedirects = async (tenantId: string): Promise<CompiledRedirects> => {
+  const { version, rules } = await getRedirectSet(tenantId);
+
+  const cached = compiledCache.get<{ version: string; compiled: CompiledRedirects }>(tenantId);
+  if (cached?.version === version) {
+    return cached.compiled;
+  }
+
+  const compiled = compile(rules);
+  compiledCache.set(tenantId, { version, compiled });
+  return compiled;
+};
+
+/**
+ * Redirect for a request path that did not resolve to a page, or null.
+ * The request's query string is kept unless the target has its own.
+ */
+export const findRedirect = async (tenantId: string, path: string, queryString: string = ''): Promise<RedirectResult | null> => {
+  // No rule can be longer, and matching stays cheap
+  if (path.length > MAX_PATH_LENGTH) {
+    return null;
+  }
+
+  const found = resolve(await getCompiledRedirects(tenantId), path);
+  if (!found) {
+    return null;
+  }
+
+  const { rule, target } = found;
+  if (rule.status === 410 || !target) {
+    return { status: 410 };
+  }
+
+  // Rules are validated against loops on import, this guards rows written elsewhere
+  if (!/^https?:\/\//i.test(target) && normalizePath(target.split('?')[0]) === normalizePath(path)) {
+    logger.warn({ tenant_id: tenantId, path, rule: rule.path }, 'Ignoring redirect to itself');
+    return null;
+  }
+
+  const location = queryString && !target.includes('?') ? `${target}?${queryString}` : target;
+  return { status: rule.status, location };
+};
+
+/**
+ * Check rules on their own and as a set: duplicates, self redirects and chains
+ * that loop or exceed MAX_HOPS. `existing` rules take part in chain detection.
+ */
+export const validateRedirects = (
+  rules: (RedirectRule & { line?: number })[],
+  existing: RedirectRule[] = []
+): RedirectValidationError[] => {
+  const errors: RedirectValidationError[] = [];
+  const seen = new Set<string>();
+
+  for (const rule of rules) {
+    const fail = (message: string) => errors.push({ line: rule.line, path: rule.path, message });
+    const wildcards = (rule.path.match(/\*/g) || []).length;
+
+    if (!rule.path.startsWith('/') || /\s|\?/.test(rule.path) || rule.path.length > MAX_PATH_LENGTH) {
+      fail('Path must start with "/" and contain no spaces or query string');
+      continue;
+    }
+    if (!MATCH_TYPES.includes(rule.match)) {
+      fail(`Match must be one of ${MATCH_TYPES.join(', ')}`);
+      continue;
+    }
+    if (!STATUSES.includes(rule.status)) {
+      fail(`Status must be one of ${STATUSES.join(', ')}`);
+      continue;
+    }
+    if ((rule.match === 'wildcard') !== (wildcards > 0)) {
+      fail(rule.match === 'wildcard' ? 'Wildcard rules need a "*" in the path' : '"*" is only allowed in wildcard rules');
+      continue;
+    }
+    if (wildcards > MAX_WILDCARDS) {
+      fail(`At most ${MAX_WILDCARDS} "*" per path`);
+      continue;
+    }
+
+    if (rule.status === 410) {
+      if (rule.target) fail('410 rules must not have a target');
+    } else if (!rule.target) {
+      fail('Target is required for 301 and 302 redirects');
+    } else if (!/^(\/(?!\/)|https?:\/\/)\S*$/i.test(rule.target) || rule.target.length > MAX_PATH_LENGTH) {
+      fail('Target must be a path starting with "/" or an http(s) URL');
+    } else {
+      const references = (rule.target.match(/\$(\d)/g) || []).map(ref => Number(ref.slice(1)));
+      if (references.some(index => index < 1 || index > wildcards)) {
+        fail(`Target references a capture the path does not have (${wildcards} "*")`);
+      }
+    }
+
+    const key = `${rule.match}:${normalizePath(rule.path)}`;
+    if (seen.has(key)) {
+      fail('Duplicate rule for this path');
+    }
+    seen.add(key);
+  }
+
+  if (errors.length > 0) {
+    return errors;
+  }
+
+  // Follow each rule from a sample path through the combined rule set
+  const incoming = new Set(rules.map(rule => `${rule.match}:${normalizePath(rule.path)}`));
+  const combined = [...rules, ...existing.filter(rule => !incoming.has(`${rule.match}:${normalizePath(rule.path)}`))];
+  const compiled = compile(combined);
+
+  for (const rule of rules) {
+    if (rule.status === 410) continue;
+
+    let path = rule.path.replace(/\*/g, 'x');
+    const visited = new Set<string>([normalizePath(path)]);
+
+    for (let hop = 0; hop <= MAX_HOPS; hop++) {
+      const found = resolve(compiled, path);
+      if (!found || !found.target || found.rule.status === 410 || /^https?:\/\//i.test(found.target)) break;
+
+      path = found.target.split('?')[0];
+      const normalized = normalizePath(path);
+      if (visited.has(normalized)) {
+        errors.push({ line: rule.line, path: rule.path, message: `Redirect loop through ${path}` });
+        break;
+      }
+      if (hop === MAX_HOPS) {
+        errors.push({ line: rule.line, path: rule.path, message: `Redirect chain longer than ${MAX_HOPS} hops` });
+        break;
+      }
+      visited.add(normalized);
+    }
+  }
+
+  return errors;
+};
+
+/**
+ * Rules from CSV with a header row: path,target[,match][,status]
+ * match defaults to wildcard when the path has "*", otherwise exact; status to 301.
+ */
+export const parseRedirectCsv = (text: string): { rules: (RedirectRule & { line: number })[]; errors: RedirectValidationError[] } => {
+  const [header, ...rows] = parseCsv(text);
+  const errors: RedirectValidationError[] = [];
+
+  const columns = (header?.fields || []).map(name => name.trim().toLowerCase());
+  const column = (name: string) => columns.indexOf(name);
+  if (column('path') === -1 || column('target') === -1) {
+    return { rules: [], errors: [{ line: header?.line ?? 1, message: 'Header must include path and target columns' }] };
+  }
+  if (rows.length > MAX_IMPORT_RULES) {
+    return { rules: [], errors: [{ message: `At most ${MAX_IMPORT_RULES} rules per import` }] };
+  }
+
+  const rules = rows.map(({ line, fields }) => {
+    const value = (name: string) => (column(name) === -1 ? '' : (fields[column(name)] || '').trim());
+    const path = value('path');
+    const status = value('status');
+    return {
+      line,
+      path,
+      target: value('target') || null,
+      match: (value('match').toLowerCase() || (path.includes('*') ? 'wildcard' : 'exact')) as RedirectMatch,
+      status: (status ? Number(status) : 301) as RedirectStatus
+    };
+  });
+
+  return { rules, errors };
+};
+
+/**
+ * Drop cached rules, and the CDN copies of 404s and redirects they may change
+ */
+export const invalidateRedirects = async (tenantId: string): Promise<void> => {
+  await invalidateTags([cacheTags.redirects(tenantId)]);
+  compiledCache.del(tenantId);
+  await purgeSurrogateKeys(tenantId, ['page_404', 'page_410', 'redirects']);
+  logger.info({ tenant_id: tenantId }, 'Redirect caches invalidated');
+};
+
+/**
+ * Validate and store rules. Merge upserts by (path, match); replace swaps the
+ * whole table. Nothing is written when any rule is invalid.
+ */
+export const importRedirects = async (
+  tenantId: string,
+  rules: (RedirectRule & { line?: number })[],
+  mode: 'merge' | 'replace' = 'merge'
+): Promise<{ imported: number; errors: RedirectValidationError[] }> => {
+  const existing = mode === 'merge' ? await getRedirects(tenantId) : [];
+  const errors = validateRedirects(rules, existing);
+  if (errors.length > 0) {
+    return { imported: 0, errors };
+  }
+
+  const client: PoolClient = await getDbPool().connect();
+  try {
+    await client.query('BEGIN');
+    if (mode === 'replace') {
+      await client.query(`DELETE FROM tenant_${tenantId}.url_redirects`);
+    }
+    for (const rule of rules) {
+      await client.query(
+        `INSERT INTO tenant_${tenantId}.url_redirects (path, target, match_type, status_code)
+         VALUES ($1, $2, $3, $4)
+         ON CONFLICT (path, match_type) DO UPDATE
+         SET target = EXCLUDED.target, status_code = EXCLUDED.status_code, updated_at = NOW()`,
+        [rule.path, rule.target, rule.match, rule.status]
+      );
+    }
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  await invalidateRedirects(tenantId);
+  logger.info({ tenant_id: tenantId, count: rules.length, mode }, 'Redirects imported');
+
+  return { imported: rules.length, errors: [] };
+};
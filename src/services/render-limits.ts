@@ -0,0 +1,54 @@
+import { config } from '../config';
+
+export interface RenderLimits {
+  parseLimit: number;
+  renderLimit: number;
+  memoryLimit: number;
+}
+
+// Limits relative to the configured base plan
+const PLAN_MULTIPLIERS: Record<string, number> = {
+  starter: 1,
+  basic: 1,
+  growth: 2,
+  pro: 2,
+  plus: 4,
+  enterprise: 4
+};
+
+/**
+ * Liquid parse/render/memory limits for a tenant plan
+ */
+export const getRenderLimits = (plan?: string): RenderLimits => {
+  const multiplier = (plan && PLAN_MULTIPLIERS[plan]) || 1;
+
+  return {
+    parseLimit: config.render.parseLimit * multiplier,
+    renderLimit: config.render.renderLimit * multiplier,
+    memoryLimit: config.render.memoryLimit * multiplier
+  };
+};
+
+/**
+ * Whether an error was raised by one of the Liquid DoS limits
+ */
+export const isRenderLimitError = (error: unknown): boolean => {
+  return error instanceof Error && /(parse length|template render|memory alloc) limit exceeded/.test(error.message);
+};
+
+/**
+ * Which limit an error hit
+ */
+export const renderLimitKind = (error: Error): 'parse' | 'render' | 'memory' => {
+  if (error.message.includes('parse length')) return 'parse';
+  if (error.message.includes('memory alloc')) return 'memory';
+  return 'render';
+};
+
+/**
+ * Theme file in which a Liquid error was raised, if liquidjs recorded it
+ */
+export const offendingTemplate = (error: Error, fallback: string): string => {
+  const token = (error as { token?: { file?: string } }).token;
+  return token?.file || fallback;
+};
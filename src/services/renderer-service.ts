@@ -1,19 +1,137 @@
 import { Liquid } from 'liquidjs';
+import { randomBytes } from 'crypto';
+import { config } from '../config';
 import { logger } from '../utils/logger';
+import { renderDuration } from '../utils/metrics';
+import { getCompiledTemplate } from './liquid-engine';
+import { RenderLimits } from './render-limits';
+import { formatMoney } from './liquid-filters';
+import { buildSeoMetadata } from './seo-metadata';
+import { escapeHtml } from '../utils/html';
+import { TemplateError } from '../middleware/error-handler';
 
 interface Theme {
+  id?: string;
+  name?: string;
+  version?: string;
   templates?: Record<string, string>;
+  files?: Record<string, string>;
   settings?: any;
 }
 
+export interface PageStream {
+  // Layout up to content_for_layout, sent before the template renders
+  head: string;
+  // Template output as it renders; emits 'error' on a failure mid-stream
+  body: NodeJS.ReadableStream;
+  // Rest of the layout
+  tail: string;
+}
+
 interface RenderContext {
   tenant: any;
+  // Theme settings with resource settings resolved (defaults to theme.settings)
+  settings?: Record<string, any>;
+  // Per-render time and memory limits of the tenant plan
+  limits?: RenderLimits;
+  // Signed preview of an unpublished theme
+  preview?: {
+    themeId: string;
+    token: string;
+  };
   request: {
     path: string;
     query: any;
+    // Canonical host of the storefront (the tenant's primary domain)
+    host: string;
   };
 }
 
+/**
+ * Variables shared by the template and its layout
+ */
+const buildTemplateData = (theme: Theme, routeData: any, context: RenderContext, templateName: string) => {
+  const origin = `https://${context.request.host}`;
+  const seo = buildSeoMetadata({
+    tenant: context.tenant,
+    origin,
+    routeType: routeData.type,
+    path: context.request.path,
+    query: context.request.query,
+    data: routeData.data || {},
+    preview: Boolean(context.preview)
+  });
+  
+  return {
+    // Route-specific data
+    ...routeData.data,
+    
+    // Global context
+    shop: {
+      name: context.tenant.name,
+      url: origin,
+      domain: context.request.host,
+      currency: context.tenant.currency || config.storefront.defaultCurrency,
+      money_format: context.tenant.money_format,
+      money_with_currency_format: context.tenant.money_with_currency_format,
+      locale: context.tenant.locale || config.storefront.defaultLocale,
+      timezone: context.tenant.timezone || config.storefront.defaultTimezone
+    },
+    
+    // Active theme
+    theme: {
+      id: theme.id,
+      name: theme.name,
+      version: theme.version,
+      // Carried on asset URLs so previews load the previewed theme's assets
+      preview_query: context.preview
+        ? new URLSearchParams({ preview_theme_id: context.preview.themeId, preview_token: context.preview.token }).toString()
+        : undefined
+    },
+    
+    // Request context
+    request: context.request,
+    
+    // Theme settings
+    settings: context.settings ?? theme.settings ?? {},
+    
+    // Current page type
+    template: templateName,
+    
+    // Helper filters and functions
+    current_page: context.request.path,
+    
+    // Search engine and social metadata
+    canonical_url: seo.canonical_url,
+    page_title: seo.page_title,
+    page_description: seo.page_description,
+    page_image: seo.page_image,
+    content_for_header: seo.head
+  };
+};
+
+/**
+ * Template source of a route, and the layout wrapping it
+ */
+const pageSources = (liquid: Liquid, theme: Theme, templateName: string) => {
+  const templateSource = theme.templates?.[templateName];
+  if (!templateSource) {
+    throw new TemplateError(`Template ${templateName} not found`, `templates/${templateName}.liquid`);
+  }
+  
+  const layoutSource = theme.files?.['layout/theme.liquid'] ?? theme.templates?.layout;
+  return {
+    // Parsed once per theme version
+    template: getCompiledTemplate(liquid, `templates/${templateName}.liquid`, templateSource),
+    layout: layoutSource ? getCompiledTemplate(liquid, 'layout/theme.liquid', layoutSource) : undefined
+  };
+};
+
+const renderOptionsFor = (context: RenderContext) => ({
+  renderLimit: context.limits?.renderLimit,
+  memoryLimit: context.limits?.memoryLimit
+});
+
 /**
  * Render a page using Liquid templates
  */
@@ -23,48 +141,23 @@ export const renderPage = async (
   routeData: any,
   context: RenderContext
 ): Promise<string> => {
+  const templateName = routeData.template || 'index';
+  const endTimer = renderDuration.startTimer({ template: templateName });
+  
   try {
-    const templateName = routeData.template || 'index';
-    const templateSource = theme.templates?.[templateName];
-    
-    if (!templateSource) {
-      throw new Error(`Template ${templateName} not found`);
-    }
-    
-    // Prepare template data
-    const templateData = {
-      // Route-specific data
-      ...routeData.data,
-      
-      // Global context
-      shop: {
-        name: context.tenant.name,
-        url: `https://${context.tenant.custom_domain || context.tenant.tenant_id + '.mystore.com'}`
-      },
-      
-      // Request context
-      request: context.request,
-      
-      // Theme settings
-      settings: theme.settings || {},
-      
-      // Current page type
-      template: templateName,
-      
-      // Helper filters and functions
-      current_page: context.request.path,
-      canonical_url: context.request.path
-    };
+    const { template, layout } = pageSources(liquid, theme, templateName);
+    const templateData = buildTemplateData(theme, routeData, context, templateName);
+    const renderOptions = renderOptionsFor(context);
     
     // Render the template
-    const html = await liquid.parseAndRender(templateSource, templateData);
+    const html = await liquid.render(template, templateData, renderOptions);
     
     // Wrap in layout if exists
-    if (theme.templates?.layout) {
-      const layoutHtml = await liquid.parseAndRender(theme.templates.layout, {
+    if (layout) {
+      const layoutHtml = await liquid.render(layout, {
         ...templateData,
         content_for_layout: html
-      });
+      }, renderOptions);
       return layoutHtml;
     }
     
@@ -72,56 +165,87 @@ export const renderPage = async (
   } catch (error) {
     logger.error({ error, template: routeData.template }, 'Error rendering page');
     throw error;
+  } finally {
+    endTimer();
   }
 };
 
 /**
- * Register custom Liquid filters for Shopify-like functionality
+ * Render a page for streaming: the layout is rendered first around a marker and
+ * split into head and tail, the template body streams between them as it renders.
+ * Unlike renderPage, the layout does not see variables assigned by the template.
+ * Returns null when the layout cannot be split (content_for_layout filtered,
+ * repeated or missing); callers then render buffered.
  */
-export const registerCustomFilters = (liquid: Liquid) => {
-  // Money formatting
-  liquid.registerFilter('money', (value: number) => {
-    return `€${(value / 100).toFixed(2)}`;
-  });
-  
-  // Money with currency
-  liquid.registerFilter('money_with_currency', (value: number) => {
-    return `€${(value / 100).toFixed(2)} EUR`;
-  });
-  
-  // Image URL generation
-  liquid.registerFilter('img_url', (src: string, size: string = 'medium') => {
-    // In production, this would use a CDN
-    const sizeMap: Record<string, string> = {
-      'small': '100x100',
-      'medium': '300x300',
-      'large': '600x600',
-      'original': 'original'
-    };
-    const dimensions = sizeMap[size] || sizeMap.medium;
-    return `https://cdn.example.com/images/${dimensions}/${src}`;
-  });
-  
-  // URL generation
-  liquid.registerFilter('product_url', (handle: string) => {
-    return `/products/${handle}`;
-  });
-  
-  liquid.registerFilter('collection_url', (handle: string) => {
-    return `/collections/${handle}`;
-  });
+export const renderPageStream = async (
+  liquid: Liquid,
+  theme: Theme,
+  routeData: any,
+  context: RenderContext
+): Promise<PageStream | null> => {
+  const templateName = routeData.template || 'index';
+  const endTimer = renderDuration.startTimer({ template: templateName });
   
-  // Handle generation
-  liquid.registerFilter('handleize', (str: string) => {
-    return str
-      .toLowerCase()
-      .replace(/[^a-z0-9]+/g, '-')
-      .replace(/^-|-$/g, '');
-  });
+  try {
+    const { template, layout } = pageSources(liquid, theme, templateName);
+    const templateData = buildTemplateData(theme, routeData, context, templateName);
+    const renderOptions = renderOptionsFor(context);
+    
+    let head = '';
+    let tail = '';
+    if (layout) {
+      const marker = `<!--content_for_layout:${randomBytes(8).toString('hex')}-->`;
+      const layoutHtml = await liquid.render(layout, { ...templateData, content_for_layout: marker }, renderOptions);
+      const parts = layoutHtml.split(marker);
+      if (parts.length !== 2) {
+        endTimer();
+        return null;
+      }
+      [head, tail] = parts;
+    }
+    
+    const body = liquid.renderToNodeStream(template, templateData, renderOptions);
+    body.on('end', () => endTimer());
+    body.on('error', () => endTimer());
+    
+    return { head, body, tail };
+  } catch (error) {
+    endTimer();
+    logger.error({ error, template: routeData.template }, 'Error rendering page');
+    throw error;
+  }
+};
+
+/**
+ * Built-in page used when a theme template cannot be rendered safely.
+ * Plain HTML, no Liquid, so it cannot hit the limits itself.
+ */
+export const renderFallbackPage = (routeData: any, context: RenderContext): string => {
+  const data = routeData.data || {};
+  const shopName = context.tenant.name || '';
+  const resource = data.product || data.collection || data.page;
+  const title = resource?.title || shopName;
+  const price = data.product?.price !== undefined
+    ? `<p class="price">${escapeHtml(formatMoney(data.product.price, context.tenant))}</p>`
+    : '';
   
-  // Truncate with ellipsis
-  liquid.registerFilter('truncate', (str: string, length: number = 50) => {
-    if (str.length <= length) return str;
-    return str.substring(0, length) + '...';
-  });
+  return `<!DOCTYPE html>
+<html lang="${escapeHtml(context.tenant.locale || config.storefront.defaultLocale)}">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <meta name="robots" content="noindex">
+  <title>${escapeHtml(title)}${title !== shopName ? ` &ndash; ${escapeHtml(shopName)}` : ''}</title>
+  <style>body{font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,sans-serif;max-width:960px;margin:0 auto;padding:24px;color:#222}a{color:inherit}</style>
+</head>
+<body>
+  <header><a href="/"><strong>${escapeHtml(shopName)}</strong></a></header>
+  <main>
+    <h1>${escapeHtml(title)}</h1>
+    ${price}
+    <p>This page is temporarily shown in a simplified layout.</p>
+    <p><a href="/">Continue shopping</a></p>
+  </main>
+</body>
+</html>`;
 };
@@ -0,0 +1,87 @@
+import { Tenant } from './tenant-service';
+import { Theme } from './theme-service';
+import { getLiquidForTheme, getCompiledTemplate } from './liquid-engine';
+import { getRenderLimits } from './render-limits';
+import { logger } from '../utils/logger';
+
+/**
+ * robots.txt
+ * Themes customize it with templates/robots.txt.liquid, which gets Shopify's
+ * `robots.default_groups`; rules and groups print as their robots.txt lines:
+ *   {% for group in robots.default_groups %}
+ *     {{- group.user_agent }}
+ *     {%- for rule in group.rules %}
+ *     {{ rule }}
+ *     {%- endfor %}
+ *     {%- if group.sitemap != blank %}
+ *     {{ group.sitemap }}
+ *     {%- endif %}
+ *   {% endfor %}
+ */
+
+const ROBOTS_TEMPLATE = 'robots.txt';
+
+interface RobotsDirective {
+  directive: string;
+  value: string;
+  toString: () => string;
+}
+
+interface RobotsGroup {
+  user_agent: RobotsDirective;
+  rules: RobotsDirective[];
+  sitemap: RobotsDirective | null;
+}
+
+// Carts, internal APIs, previews, and the endless URL space of sorted and filtered listings
+const DEFAULT_DISALLOW = [
+  '/cart',
+  '/internal/',
+  '/search',
+  '/*preview_theme_id*',
+  '/collections/*sort_by*',
+  '/collections/*filter*'
+];
+
+const directive = (name: string, value: string): RobotsDirective => ({
+  directive: name,
+  value,
+  toString: () => `${name}: ${value}`
+});
+
+/**
+ * Default groups: every crawler, with the sitemap index on the canonical origin
+ */
+const defaultGroups = (origin: string): RobotsGroup[] => [{
+  user_agent: directive('User-agent', '*'),
+  rules: DEFAULT_DISALLOW.map(path => directive('Disallow', path)),
+  sitemap: directive('Sitemap', `${origin}/sitemap.xml`)
+}];
+
+const renderDefault = (groups: RobotsGroup[]): string => groups
+  .map(group => [group.user_agent, ...group.rules, ...(group.sitemap ? [group.sitemap] : [])].join('\n'))
+  .join('\n\n') + '\n';
+
+/**
+ * robots.txt of a storefront; a theme template that fails to render falls
+ * back to the defaults rather than leaving crawlers without rules
+ */
+export const renderRobots = async (tenant: Tenant, theme: Theme | null, origin: string): Promise<string> => {
+  const groups = defaultGroups(origin);
+  const source = theme?.templates?.[ROBOTS_TEMPLATE];
+  if (!theme || !source) {
+    return renderDefault(groups);
+  }
+
+  const limits = getRenderLimits(tenant.plan);
+  try {
+    const liquid = getLiquidForTheme(tenant.tenant_id, theme, limits);
+    return await liquid.render(getCompiledTemplate(liquid, `templates/${ROBOTS_TEMPLATE}.liquid`, source), {
+      robots: { default_groups: groups },
+      shop: { name: tenant.name, url: origin }
+    }, { renderLimit: limits.renderLimit, memoryLimit: limits.memoryLimit });
+  } catch (error) {
+    logger.warn({ error, tenant_id: tenant.tenant_id, theme_id: theme.id }, 'Error rendering robots.txt template, serving defaults');
+    return renderDefault(groups);
+  }
+};
@@ -0,0 +1,131 @@
+import { Tenant } from './tenant-service';
+
+/**
+ * Declarative storefront route table
+ * Each route declares a path pattern, the theme template it renders, a data
+ * loader and a cache policy. Routes match in registration order.
+ */
+
+export interface RouteCachePolicy {
+  // Browser and CDN max-age in seconds
+  maxAge: number;
+  // Store rendered HTML in the server-side page cache
+  pageCache: boolean;
+}
+
+export interface RouteLoadContext {
+  tenant: Tenant;
+  // Normalized request path, for building pagination and filter URLs
+  path: string;
+  params: Record<string, string>;
+  query: Record<string, unknown>;
+}
+
+export interface StorefrontRoute {
+  // Page type, exposed as `template` and in the `page_<type>` surrogate key
+  type: string;
+  // Path pattern with `:name` segments, e.g. /collections/:collection/products/:product
+  pattern: string;
+  template: string;
+  load: (context: RouteLoadContext) => Promise<Record<string, any>>;
+  // Alternate template chosen by the loaded resource, e.g. "contact" for page.contact
+  templateSuffix?: (data: Record<string, any>) => string | null | undefined;
+  cache?: Partial<RouteCachePolicy>;
+}
+
+export interface RouteMatch {
+  route: StorefrontRoute;
+  path: string;
+  params: Record<string, string>;
+  cache: RouteCachePolicy;
+}
+
+export interface RouteData {
+  type: string;
+  template: string;
+  data: Record<string, any>;
+}
+
+interface CompiledRoute {
+  route: StorefrontRoute;
+  regex: RegExp;
+  paramNames: string[];
+}
+
+export const DEFAULT_CACHE_POLICY: RouteCachePolicy = { maxAge: 3600, pageCache: true };
+
+const routes: CompiledRoute[] = [];
+
+const TEMPLATE_SUFFIX = /^[\w-]+$/;
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const compile = (route: StorefrontRoute): CompiledRoute => {
+  const paramNames: string[] = [];
+  const source = route.pattern
+    .split('/')
+    .map(segment => {
+      if (segment.startsWith(':')) {
+        paramNames.push(segment.slice(1));
+        return '([^/]+)';
+      }
+      return escapeRegex(segment);
+    })
+    .join('/');
+
+  return { route, regex: new RegExp(`^${source}$`), paramNames };
+};
+
+/**
+ * Add a route. Routes registered first win, so register literal paths
+ * (e.g. /collections/all) before the patterns they would also match.
+ */
+export const registerRoute = (route: StorefrontRoute): void => {
+  routes.push(compile(route));
+};
+
+/**
+ * Find the route for a request path. Parameters are URL-decoded and NFC
+ * normalized, so handles may contain Unicode and uppercase characters.
+ */
+export const matchRoute = (path: string): RouteMatch | null => {
+  const normalized = path.length > 1 ? path.replace(/\/+$/, '') : path;
+
+  for (const { route, regex, paramNames } of routes) {
+    const match = normalized.match(regex);
+    if (!match) continue;
+
+    const params: Record<string, string> = {};
+    try {
+      paramNames.forEach((name, index) => {
+        params[name] = decodeURIComponent(match[index + 1]).normalize('NFC');
+      });
+    } catch (error) {
+      // Malformed percent-encoding
+      return null;
+    }
+
+    return { route, path: normalized, params, cache: { ...DEFAULT_CACHE_POLICY, ...route.cache } };
+  }
+
+  return null;
+};
+
+/**
+ * Run the route's data loader. An alternate template is used only when the
+ * theme has it (`hasTemplate`), otherwise the route's own template renders.
+ */
+export const loadRoute = async (
+  match: RouteMatch,
+  tenant: Tenant,
+  query: Record<string, unknown>,
+  hasTemplate: (name: string) => boolean = () => false
+): Promise<RouteData> => {
+  const { route } = match;
+  const data = await route.load({ tenant, path: match.path, params: match.params, query });
+
+  const suffix = route.templateSuffix?.(data);
+  const alternate = suffix && TEMPLATE_SUFFIX.test(suffix) ? `${route.template}.${suffix}` : undefined;
+
+  return { type: route.type, template: alternate && hasTemplate(alternate) ? alternate : route.template, data };
+};
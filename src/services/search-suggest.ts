@@ -0,0 +1,199 @@
+import crypto from 'crypto';
+import { loadProducts, Product } from './microservices';
+import { getCollections } from './product-service';
+import { searchPages } from './content-service';
+import { cacheGet, cacheSet, cacheTags } from './tagged-cache';
+import { singleFlight } from './single-flight';
+import { escapeHtml } from '../utils/html';
+import { logger } from '../utils/logger';
+import { config } from '../config';
+
+/**
+ * Predictive search (Shopify's /search/suggest.json)
+ * Lightweight product, collection, page and query suggestions for type-ahead
+ * search. Responses are cached briefly, keyed on the normalized terms, so
+ * shoppers typing the same prefix share one lookup.
+ */
+
+export type SuggestResourceType = 'query' | 'product' | 'collection' | 'page';
+
+export const SUGGEST_RESOURCE_TYPES: SuggestResourceType[] = ['query', 'product', 'collection', 'page'];
+
+export const MAX_SUGGEST_LIMIT = 10;
+export const MAX_SUGGEST_TERMS_LENGTH = 100;
+
+export interface SuggestOptions {
+  terms: string;
+  types: SuggestResourceType[];
+  // Results per resource type
+  limit: number;
+}
+
+interface QuerySuggestion {
+  text: string;
+  styled_text: string;
+  url: string;
+}
+
+interface ProductSuggestion {
+  id: string;
+  title: string;
+  handle: string;
+  url: string;
+  vendor: string | null;
+  type: string | null;
+  tags: string[];
+  price: number;
+  compare_at_price: number | null;
+  available: boolean;
+  image: string | null;
+}
+
+interface ResourceSuggestion {
+  id: string;
+  title: string;
+  handle: string;
+  url: string;
+}
+
+export interface SuggestResults {
+  queries: QuerySuggestion[];
+  products: ProductSuggestion[];
+  collections: ResourceSuggestion[];
+  pages: ResourceSuggestion[];
+}
+
+/**
+ * Collapse whitespace and case so "Shirt", "shirt " and "shirt" share a cache entry
+ */
+export const normalizeTerms = (terms: string): string =>
+  terms.normalize('NFC').replace(/\s+/g, ' ').trim().toLowerCase().slice(0, MAX_SUGGEST_TERMS_LENGTH);
+
+const toProductSuggestion = (product: Product): ProductSuggestion => ({
+  id: product.id,
+  title: product.title,
+  handle: product.handle,
+  url: `/products/${product.handle}`,
+  vendor: product.vendor || null,
+  type: product.product_type || null,
+  tags: product.tags || [],
+  price: product.price,
+  compare_at_price: product.compare_at_price ?? null,
+  available: product.variants?.length
+    ? product.variants.some(variant => variant.available !== false)
+    : product.inventory_qty > 0,
+  image: product.images?.[0] || null
+});
+
+/**
+ * Escaped text with the matched terms wrapped in <mark>
+ */
+const styleMatch = (text: string, terms: string): string => {
+  const index = text.toLowerCase().indexOf(terms);
+  if (index === -1) return escapeHtml(text);
+
+  return escapeHtml(text.slice(0, index))
+    + `<mark>${escapeHtml(text.slice(index, index + terms.length))}</mark>`
+    + escapeHtml(text.slice(index + terms.length));
+};
+
+/**
+ * The terms themselves, then product types, vendors and tags of the matched
+ * products that contain the terms, so "shi" suggests "shirts"
+ */
+const buildQuerySuggestions = (terms: string, products: Product[], limit: number): QuerySuggestion[] => {
+  const candidates = [terms, ...products.flatMap(product => [product.product_type, product.vendor, ...(product.tags || [])])];
+  const seen = new Set<string>();
+  const queries: QuerySuggestion[] = [];
+
+  for (const candidate of candidates) {
+    const text = candidate?.trim().toLowerCase();
+    if (!text || seen.has(text) || !text.includes(terms)) continue;
+
+    seen.add(text);
+    queries.push({ text, styled_text: styleMatch(text, terms), url: `/search?q=${encodeURIComponent(text)}` });
+    if (queries.length >= limit) break;
+  }
+
+  return queries;
+};
+
+/**
+ * Run the lookups for the requested resource types. A failed lookup yields no
+ * results for that type; `complete` is false so the partial response is not cached.
+ */
+const loadSuggestions = async (tenantId: string, options: SuggestOptions): Promise<{ results: SuggestResults; complete: boolean }> => {
+  const { terms, types, limit } = options;
+  const wants = (type: SuggestResourceType) => types.includes(type);
+  let complete = true;
+
+  const settle = async <T>(type: SuggestResourceType, enabled: boolean, lookup: () => Promise<T[]>): Promise<T[]> => {
+    if (!enabled) return [];
+    try {
+      return await lookup();
+    } catch (error) {
+      complete = false;
+      logger.warn({ error, tenant_id: tenantId, type }, 'Search suggestion lookup failed');
+      return [];
+    }
+  };
+
+  // Query suggestions are derived from the matched products
+  const [products, collections, pages] = await Promise.all([
+    settle('product', wants('product') || wants('query'),
+      async () => (await loadProducts(tenantId, { search: terms, limit })).products || []),
+    settle('collection', wants('collection'), () => getCollections(tenantId, { search: terms, limit })),
+    settle('page', wants('page'), () => searchPages(tenantId, terms, limit))
+  ]);
+
+  return {
+    complete,
+    results: {
+      queries: wants('query') ? buildQuerySuggestions(terms, products, limit) : [],
+      products: wants('product') ? products.map(toProductSuggestion) : [],
+      collections: collections.map(({ id, title, handle }) => ({ id, title, handle, url: `/collections/${handle}` })),
+      pages: pages.map(({ id, title, handle, url }) => ({ id, title, handle, url }))
+    }
+  };
+};
+
+/**
+ * Suggestions for a tenant, served from a short-lived cache. `complete` is
+ * false when a lookup failed; such partial results must not be cached downstream.
+ */
+export const getSearchSuggestions = async (
+  tenantId: string,
+  options: SuggestOptions
+): Promise<{ results: SuggestResults; complete: boolean }> => {
+  const terms = normalizeTerms(options.terms);
+  const types = SUGGEST_RESOURCE_TYPES.filter(type => options.types.includes(type));
+  const limit = Math.min(Math.max(options.limit, 1), MAX_SUGGEST_LIMIT);
+
+  if (!terms || types.length === 0) {
+    return { results: { queries: [], products: [], collections: [], pages: [] }, complete: true };
+  }
+
+  const digest = crypto.createHash('sha1').update(JSON.stringify([terms, types, limit])).digest('hex');
+  const cacheKey = `suggest:${tenantId}:${digest}`;
+
+  return singleFlight('suggest', cacheKey, async () => {
+    try {
+      const cached = await cacheGet<SuggestResults>(cacheKey);
+      if (cached) return { results: cached, complete: true };
+    } catch (error) {
+      logger.warn({ error, tenant_id: tenantId }, 'Search suggestion cache unavailable');
+    }
+
+    const { results, complete } = await loadSuggestions(tenantId, { terms, types, limit });
+
+    if (complete) {
+      await cacheSet(cacheKey, results, config.cache.suggestCacheTTL, [
+        cacheTags.productLists(tenantId),
+        cacheTags.collectionLists(tenantId),
+        cacheTags.content(tenantId)
+      ]).catch(error => logger.warn({ error, tenant_id: tenantId }, 'Failed to cache search suggestions'));
+    }
+
+    return { results, complete };
+  });
+};
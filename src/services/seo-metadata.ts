@@ -0,0 +1,278 @@
+import { buildImageUrl } from './liquid-filters';
+import { escapeHtml, safeJson } from '../utils/html';
+import { config } from '../config';
+
+/**
+ * Search engine and social metadata of a rendered page
+ * Exposed to Liquid as page_title, page_description, page_image and an
+ * absolute canonical_url; content_for_header carries the canonical link,
+ * Open Graph and Twitter tags and schema.org JSON-LD built from the route data.
+ */
+
+export interface SeoMetadata {
+  page_title: string;
+  page_description: string | null;
+  page_image: string | null;
+  canonical_url: string;
+  // Built-in head tags for {{ content_for_header }}
+  head: string;
+}
+
+interface SeoSources {
+  tenant: { name: string; currency?: string };
+  // Canonical https://host of the storefront
+  origin: string;
+  routeType: string;
+  path: string;
+  query: Record<string, unknown>;
+  data: Record<string, any>;
+  preview?: boolean;
+}
+
+interface PageDescription {
+  title: string;
+  description?: string | null;
+  image?: unknown;
+  ogType: string;
+  // Path of the resource itself, when it differs from the request path
+  path?: string;
+  breadcrumbs: { name: string; path: string }[];
+}
+
+// Query parameters that select different content; sorting, filters, variants and tracking don't
+const CANONICAL_QUERY_PARAMS = ['q', 'page'];
+
+const MAX_DESCRIPTION_LENGTH = 160;
+
+/**
+ * Plain text of an HTML fragment, cut at a word boundary
+ */
+const textExcerpt = (html: unknown, maxLength: number = MAX_DESCRIPTION_LENGTH): string | null => {
+  if (typeof html !== 'string') return null;
+  const text = html
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+  if (!text) return null;
+  if (text.length <= maxLength) return text;
+
+  const cut = text.slice(0, maxLength - 1);
+  const boundary = cut.lastIndexOf(' ');
+  return `${boundary > maxLength / 2 ? cut.slice(0, boundary) : cut}…`;
+};
+
+// Percent-encode consistently, whether the path arrived encoded (requests) or not (handles)
+const encodePath = (path: string): string => {
+  try {
+    return encodeURI(decodeURI(path));
+  } catch (error) {
+    return path;
+  }
+};
+
+/**
+ * Absolute URL of a page: no trailing slash, only content-selecting parameters, sorted
+ */
+export const canonicalUrl = (origin: string, path: string, query: Record<string, unknown> = {}): string => {
+  const params = new URLSearchParams();
+
+  for (const name of CANONICAL_QUERY_PARAMS) {
+    const value = typeof query[name] === 'string' ? (query[name] as string).trim() : '';
+    if (!value) continue;
+    if (name === 'page') {
+      // The first page is the collection itself
+      const page = /^\d+$/.test(value) ? Number(value) : 1;
+      if (page > 1) params.set(name, String(page));
+    } else {
+      params.set(name, value);
+    }
+  }
+
+  const normalizedPath = path.length > 1 ? path.replace(/\/+$/, '') : path;
+  const search = params.toString();
+  return `${origin}${encodePath(normalizedPath)}${search ? `?${search}` : ''}`;
+};
+
+const absoluteImage = (image: unknown): string | null => {
+  const url = buildImageUrl(image);
+  if (!url) return null;
+  return url.startsWith('//') ? `https:${url}` : url;
+};
+
+/**
+ * Title, description and breadcrumbs of the resource a route renders
+ */
+const describePage = ({ tenant, routeType, data }: SeoSources): PageDescription => {
+  const home = { name: 'Home', path: '/' };
+
+  switch (routeType) {
+    case 'product': {
+      const { product, collection } = data;
+      const path = `/products/${product.handle}`;
+      return {
+        title: product.title,
+        description: product.description,
+        image: product.images?.[0],
+        ogType: 'product',
+        path,
+        breadcrumbs: [
+          home,
+          ...(collection ? [{ name: collection.title, path: `/collections/${collection.handle}` }] : []),
+          { name: product.title, path }
+        ]
+      };
+    }
+    case 'collection': {
+      const { collection } = data;
+      return {
+        title: collection.title,
+        description: collection.description,
+        image: collection.image,
+        ogType: 'website',
+        breadcrumbs: [home, { name: collection.title, path: collection.url }]
+      };
+    }
+    case 'article': {
+      const { blog, article } = data;
+      return {
+        title: article.title,
+        description: article.excerpt || article.content,
+        image: article.image,
+        ogType: 'article',
+        // Blogs have no listing page, so the trail skips them
+        breadcrumbs: [home, { name: article.title, path: `/blogs/${blog.handle}/${article.handle}` }]
+      };
+    }
+    case 'page':
+      return {
+        title: data.page.seo?.title || data.page.title,
+        description: data.page.seo?.description || data.page.content,
+        ogType: 'website',
+        breadcrumbs: [home, { name: data.page.title, path: data.page.url }]
+      };
+    case 'policy':
+      return {
+        title: data.policy.title,
+        description: data.policy.body,
+        ogType: 'website',
+        breadcrumbs: [home, { name: data.policy.title, path: data.policy.url }]
+      };
+    case 'search':
+      return {
+        title: data.search?.terms ? `Search: ${data.search.terms}` : 'Search',
+        ogType: 'website',
+        breadcrumbs: []
+      };
+    case '404':
+      return { title: 'Page not found', ogType: 'website', breadcrumbs: [] };
+    case 'error':
+      return { title: 'Something went wrong', ogType: 'website', breadcrumbs: [] };
+    default:
+      return { title: tenant.name, ogType: 'website', breadcrumbs: [] };
+  }
+};
+
+const productJsonLd = (product: any, url: string, currency: string, description: string | null) => {
+  const price = (cents: unknown) => ((Number(cents) || 0) / 100).toFixed(2);
+  const availability = (available: boolean) => `https://schema.org/${available ? 'InStock' : 'OutOfStock'}`;
+  const variants: any[] = product.variants || [];
+
+  const offers = variants.length > 0
+    ? variants.map(variant => ({
+      '@type': 'Offer',
+      url: `${url}?variant=${encodeURIComponent(variant.id)}`,
+      ...(variant.sku && { sku: variant.sku }),
+      price: price(variant.price),
+      priceCurrency: currency,
+      availability: availability(variant.available !== false)
+    }))
+    : [{
+      '@type': 'Offer',
+      url,
+      price: price(product.price),
+      priceCurrency: currency,
+      availability: availability(product.inventory_qty > 0)
+    }];
+
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'Product',
+    name: product.title,
+    url,
+    ...(description && { description }),
+    image: (product.images || []).map(absoluteImage).filter(Boolean),
+    ...(product.sku && { sku: product.sku }),
+    ...(product.vendor && { brand: { '@type': 'Brand', name: product.vendor } }),
+    offers
+  };
+};
+
+const metaTag = (attribute: 'name' | 'property', key: string, content: unknown) =>
+  content === null || content === undefined || content === ''
+    ? ''
+    : `<meta ${attribute}="${key}" content="${escapeHtml(content)}">`;
+
+/**
+ * Page title, description, canonical URL and head tags for a route
+ */
+export const buildSeoMetadata = (sources: SeoSources): SeoMetadata => {
+  const { tenant, origin, data } = sources;
+  const page = describePage(sources);
+  const currency = tenant.currency || config.storefront.defaultCurrency;
+
+  const currentPage = Number(data.paginate?.current_page) || 1;
+  const title = currentPage > 1 ? `${page.title} – Page ${currentPage}` : page.title;
+  const description = textExcerpt(page.description);
+  const image = page.image ? absoluteImage(page.image) : null;
+  const url = page.path ? canonicalUrl(origin, page.path) : canonicalUrl(origin, sources.path, sources.query);
+
+  const jsonLd: Record<string, unknown>[] = [];
+  if (sources.routeType === 'home') {
+    jsonLd.push({ '@context': 'https://schema.org', '@type': 'Organization', name: tenant.name, url: origin });
+  }
+  if (sources.routeType === 'product') {
+    jsonLd.push(productJsonLd(data.product, url, currency, description));
+  }
+  if (page.breadcrumbs.length > 1) {
+    jsonLd.push({
+      '@context': 'https://schema.org',
+      '@type': 'BreadcrumbList',
+      itemListElement: page.breadcrumbs.map((crumb, index) => ({
+        '@type': 'ListItem',
+        position: index + 1,
+        name: crumb.name,
+        item: canonicalUrl(origin, crumb.path)
+      }))
+    });
+  }
+
+  const product = sources.routeType === 'product' ? data.product : null;
+  const head = [
+    sources.preview ? metaTag('name', 'robots', 'noindex') : '',
+    `<link rel="canonical" href="${escapeHtml(url)}">`,
+    metaTag('name', 'description', description),
+    metaTag('property', 'og:site_name', tenant.name),
+    metaTag('property', 'og:url', url),
+    metaTag('property', 'og:title', title),
+    metaTag('property', 'og:type', page.ogType),
+    metaTag('property', 'og:description', description || title),
+    metaTag('property', 'og:image', image),
+    metaTag('property', 'og:image:secure_url', image),
+    metaTag('property', 'og:price:amount', product ? ((Number(product.price) || 0) / 100).toFixed(2) : null),
+    metaTag('property', 'og:price:currency', product ? currency : null),
+    metaTag('name', 'twitter:card', image ? 'summary_large_image' : 'summary'),
+    metaTag('name', 'twitter:title', title),
+    metaTag('name', 'twitter:description', description || title),
+    ...jsonLd.map(item => `<script type="application/ld+json">${safeJson(item)}</script>`)
+  ].filter(Boolean).join('\n');
+
+  return {
+    page_title: title,
+    page_description: description,
+    page_image: image,
+    canonical_url: url,
+    head
+  };
+};
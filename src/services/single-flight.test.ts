@@ -0,0 +1,78 @@
+import { acquireLock, releaseLock, singleFlight, withRefillLock } from './single-flight';
+import { getRedisClient } from './index';
+
+jest.mock('./index', () => ({ getRedisClient: jest.fn() }));
+jest.mock('../utils/metrics', () => ({ coalescedRequests: { inc: jest.fn() } }));
+
+// Just enough of Redis for locks: SET NX, EXISTS and the compare-and-delete script
+const store = new Map<string, string>();
+const redis = {
+  set: jest.fn(async (key: string, value: string) => {
+    if (store.has(key)) return null;
+    store.set(key, value);
+    return 'OK';
+  }),
+  exists: jest.fn(async (key: string) => (store.has(key) ? 1 : 0)),
+  eval: jest.fn(async (script: string, keyCount: number, key: string, token: string) => {
+    if (store.get(key) !== token) return 0;
+    store.delete(key);
+    return 1;
+  })
+};
+(getRedisClient as jest.Mock).mockReturnValue(redis);
+
+beforeEach(() => {
+  store.clear();
+  jest.clearAllMocks();
+});
+
+describe('locks', () => {
+  it('stores a random token per holder', async () => {
+    const token = await acquireLock('lock:a', 1000);
+
+    expect(token).toMatch(/^[0-9a-f]{32}$/);
+    expect(store.get('lock:a')).toBe(token);
+    expect(await acquireLock('lock:a', 1000)).toBeNull();
+  });
+
+  it('does not release a lock another holder took over', async () => {
+    const stale = await acquireLock('lock:a', 1000);
+    // Expired, then taken by another pod
+    store.set('lock:a', 'other-token');
+
+    await releaseLock('lock:a', stale as string);
+
+    expect(store.get('lock:a')).toBe('other-token');
+  });
+});
+
+describe('withRefillLock', () => {
+  it('loads once and releases its own lock', async () => {
+    const load = jest.fn().mockResolvedValue('value');
+
+    expect(await withRefillLock('test', 'k', async () => null, load)).toBe('value');
+    expect(load).toHaveBeenCalledTimes(1);
+    expect(store.has('lock:k')).toBe(false);
+  });
+
+  it('waits for the lock holder to fill the cache', async () => {
+    store.set('lock:k', 'holder');
+    const read = jest.fn().mockResolvedValueOnce(null).mockResolvedValueOnce('cached');
+    const load = jest.fn();
+
+    expect(await withRefillLock('test', 'k', read, load)).toBe('cached');
+    expect(load).not.toHaveBeenCalled();
+    expect(store.get('lock:k')).toBe('holder');
+  });
+});
+
+describe('singleFlight', () => {
+  it('shares one load between concurrent callers', async () => {
+    const load = jest.fn().mockResolvedValue(1);
+
+    const results = await Promise.all([singleFlight('test', 'k', load), singleFlight('test', 'k', load)]);
+
+    expect(results).toEqual([1, 1]);
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,103 @@
+import { randomBytes } from 'crypto';
+import { getRedisClient } from './index';
+import { logger } from '../utils/logger';
+import { coalescedRequests } from '../utils/metrics';
+
+/**
+ * Request coalescing for cache misses
+ *
+ * singleFlight: concurrent identical loads in this process share one promise.
+ * withRefillLock: across pods, one process refills a Redis cache key while the
+ * others poll the cache until it appears (or the lock holder gives up).
+ */
+
+// Refill lock expiry, in case the holder dies mid-load
+const LOCK_TTL_MS = 15000;
+const POLL_INTERVAL_MS = 100;
+
+// Delete a lock only while it still holds our token: after an expiry another pod may own it
+const RELEASE_LOCK_SCRIPT = `if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('del', KEYS[1]) else return 0 end`;
+
+const inFlight = new Map<string, Promise<unknown>>();
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Take a Redis lock; resolves with the token that releases it, or null when another holder has it
+ */
+export const acquireLock = async (lockKey: string, ttlMs: number): Promise<string | null> => {
+  const token = randomBytes(16).toString('hex');
+  const acquired = await getRedisClient().set(lockKey, token, 'PX', ttlMs, 'NX');
+  return acquired ? token : null;
+};
+
+/**
+ * Release a lock taken with acquireLock, unless it expired and was taken over
+ */
+export const releaseLock = async (lockKey: string, token: string): Promise<void> => {
+  await getRedisClient().eval(RELEASE_LOCK_SCRIPT, 1, lockKey, token);
+};
+
+/**
+ * Share one in-flight load between concurrent callers asking for the same key
+ */
+export const singleFlight = <T>(operation: string, key: string, load: () => Promise<T>): Promise<T> => {
+  const flightKey = `${operation}:${key}`;
+  const pending = inFlight.get(flightKey) as Promise<T> | undefined;
+
+  if (pending) {
+    coalescedRequests.inc({ operation, scope: 'process' });
+    return pending;
+  }
+
+  const promise = load().finally(() => inFlight.delete(flightKey));
+  inFlight.set(flightKey, promise);
+  return promise;
+};
+
+/**
+ * Let one pod refill a cache key. `load` must write the cache before resolving;
+ * other pods wait for `read` to return the value. Falls back to loading locally
+ * when the lock holder finishes without caching anything (e.g. a null result).
+ */
+export const withRefillLock = async <T>(
+  operation: string,
+  key: string,
+  read: () => Promise<T | null>,
+  load: () => Promise<T>
+): Promise<T> => {
+  const redis = getRedisClient();
+  const lockKey = `lock:${key}`;
+
+  let token: string | null;
+  try {
+    token = await acquireLock(lockKey, LOCK_TTL_MS);
+  } catch (error) {
+    logger.warn({ error, key }, 'Refill lock unavailable, loading without it');
+    return load();
+  }
+
+  if (token) {
+    try {
+      return await load();
+    } finally {
+      await releaseLock(lockKey, token).catch(() => undefined);
+    }
+  }
+
+  const deadline = Date.now() + LOCK_TTL_MS;
+  while (Date.now() < deadline) {
+    await sleep(POLL_INTERVAL_MS);
+
+    const value = await read();
+    if (value !== null) {
+      coalescedRequests.inc({ operation, scope: 'cluster' });
+      return value;
+    }
+    if (!(await redis.exists(lockKey))) {
+      break;
+    }
+  }
+
+  return load();
+};
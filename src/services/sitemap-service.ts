@@ -0,0 +1,175 @@
+import { loadProducts } from './microservices';
+import { countCollections, getCollections } from './product-service';
+import { countContentUrls, listContentUrls } from './content-service';
+import { cacheGet, cacheSet, cacheTags } from './tagged-cache';
+import { singleFlight } from './single-flight';
+import { escapeHtml } from '../utils/html';
+import { logger } from '../utils/logger';
+import { config } from '../config';
+
+/**
+ * XML sitemaps (sitemaps.org protocol)
+ *   /sitemap.xml                 index of the child sitemaps
+ *   /sitemap_<type>_<page>.xml   products, collections, pages or blogs
+ * Entries are cached as paths and made absolute per request, so every domain
+ * of a tenant shares one cache entry. Each type is tagged with the data cache
+ * it is built from and dropped together with it.
+ */
+
+export type SitemapType = 'products' | 'collections' | 'pages' | 'blogs';
+
+export const SITEMAP_TYPES: SitemapType[] = ['products', 'collections', 'pages', 'blogs'];
+
+// URLs per child sitemap (the protocol allows 50,000)
+export const SITEMAP_PAGE_SIZE = 1000;
+// products-service page size
+const PRODUCT_BATCH_SIZE = 250;
+
+interface SitemapEntry {
+  path: string;
+  lastmod?: string;
+}
+
+interface SitemapSource {
+  count: (tenantId: string) => Promise<number>;
+  list: (tenantId: string, limit: number, offset: number) => Promise<SitemapEntry[]>;
+  // URLs listed ahead of the data source on the first page
+  fixed?: SitemapEntry[];
+  tags: (tenantId: string) => string[];
+}
+
+const lastmod = (value: string | Date | null | undefined): string | undefined => {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+};
+
+// Oldest first, so new products land on the last page and earlier pages stay stable
+const productQuery = { sort_by: 'created-ascending' };
+
+const SOURCES: Record<SitemapType, SitemapSource> = {
+  products: {
+    count: async (tenantId) => (await loadProducts(tenantId, { ...productQuery, limit: 1 })).total,
+    list: async (tenantId, limit, offset) => {
+      const entries: SitemapEntry[] = [];
+      for (let batch = 0; batch < limit; batch += PRODUCT_BATCH_SIZE) {
+        const { products } = await loadProducts(tenantId, {
+          ...productQuery,
+          limit: Math.min(PRODUCT_BATCH_SIZE, limit - batch),
+          offset: offset + batch
+        });
+        entries.push(...products.map(product => ({
+          path: `/products/${product.handle}`,
+          lastmod: lastmod(product.updated_at || product.created_at)
+        })));
+        if (products.length < PRODUCT_BATCH_SIZE) break;
+      }
+      return entries;
+    },
+    tags: (tenantId) => [cacheTags.productLists(tenantId)]
+  },
+  collections: {
+    count: countCollections,
+    list: async (tenantId, limit, offset) => (await getCollections(tenantId, { limit, offset }))
+      .map(collection => ({ path: `/collections/${collection.handle}`, lastmod: lastmod(collection.updated_at) })),
+    tags: (tenantId) => [cacheTags.collectionLists(tenantId)]
+  },
+  pages: {
+    count: (tenantId) => countContentUrls(tenantId, 'pages'),
+    list: async (tenantId, limit, offset) => (await listContentUrls(tenantId, 'pages', limit, offset))
+      .map(({ url, updated_at }) => ({ path: url, lastmod: lastmod(updated_at) })),
+    fixed: [{ path: '/' }],
+    // Dropped by invalidateContentCache, which also purges sitemap_pages and sitemap_blogs
+    tags: (tenantId) => [cacheTags.content(tenantId)]
+  },
+  blogs: {
+    count: (tenantId) => countContentUrls(tenantId, 'blogs'),
+    list: async (tenantId, limit, offset) => (await listContentUrls(tenantId, 'blogs', limit, offset))
+      .map(({ url, updated_at }) => ({ path: url, lastmod: lastmod(updated_at) })),
+    tags: (tenantId) => [cacheTags.content(tenantId)]
+  }
+};
+
+/**
+ * Load through the tagged cache; concurrent misses share one load
+ */
+const cached = <T>(cacheKey: string, tags: string[], load: () => Promise<T>): Promise<T> =>
+  singleFlight('sitemap', cacheKey, async () => {
+    const hit = await cacheGet<T>(cacheKey);
+    if (hit) return hit;
+
+    const value = await load();
+    await cacheSet(cacheKey, value, config.cache.sitemapCacheTTL, tags);
+    return value;
+  });
+
+const sitemapPath = (type: SitemapType, page: number) => `/sitemap_${type}_${page}.xml`;
+
+const absolute = (origin: string, path: string) => escapeHtml(`${origin}${encodeURI(path)}`);
+
+/**
+ * Child sitemaps of a tenant, one per SITEMAP_PAGE_SIZE URLs of each type
+ */
+const getSitemapCounts = (tenantId: string): Promise<Record<SitemapType, number>> =>
+  cached(`sitemap:${tenantId}:index`, SITEMAP_TYPES.flatMap(type => SOURCES[type].tags(tenantId)), async () => {
+    const counts = await Promise.all(SITEMAP_TYPES.map(async type =>
+      (SOURCES[type].fixed?.length || 0) + await SOURCES[type].count(tenantId)));
+    return Object.fromEntries(SITEMAP_TYPES.map((type, index) => [type, counts[index]])) as Record<SitemapType, number>;
+  });
+
+/**
+ * Sitemap index XML; `origin` is the canonical https://host
+ */
+export const renderSitemapIndex = async (tenantId: string, origin: string): Promise<string> => {
+  const counts = await getSitemapCounts(tenantId);
+
+  const sitemaps = SITEMAP_TYPES.flatMap(type =>
+    Array.from({ length: Math.ceil(counts[type] / SITEMAP_PAGE_SIZE) }, (_, index) =>
+      `  <sitemap><loc>${absolute(origin, sitemapPath(type, index + 1))}</loc></sitemap>`));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...sitemaps,
+    '</sitemapindex>',
+    ''
+  ].join('\n');
+};
+
+/**
+ * Child sitemap XML, or null for a page past the end
+ */
+export const renderSitemap = async (
+  tenantId: string,
+  type: SitemapType,
+  page: number,
+  origin: string
+): Promise<string | null> => {
+  const counts = await getSitemapCounts(tenantId);
+  if (page < 1 || (page - 1) * SITEMAP_PAGE_SIZE >= counts[type]) {
+    return null;
+  }
+
+  const source = SOURCES[type];
+  const entries = await cached(`sitemap:${tenantId}:${type}:${page}`, source.tags(tenantId), async () => {
+    const start = (page - 1) * SITEMAP_PAGE_SIZE;
+    const fixed = (source.fixed || []).slice(start, start + SITEMAP_PAGE_SIZE);
+    const offset = Math.max(0, start - (source.fixed?.length || 0));
+    const listed = await source.list(tenantId, SITEMAP_PAGE_SIZE - fixed.length, offset);
+
+    logger.info({ tenant_id: tenantId, type, page, urls: fixed.length + listed.length }, 'Sitemap generated');
+    return [...fixed, ...listed];
+  });
+
+  const urls = entries.map(entry => entry.lastmod
+    ? `  <url><loc>${absolute(origin, entry.path)}</loc><lastmod>${entry.lastmod}</lastmod></url>`
+    : `  <url><loc>${absolute(origin, entry.path)}</loc></url>`);
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...urls,
+    '</urlset>',
+    ''
+  ].join('\n');
+};
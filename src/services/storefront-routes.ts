@@ -0,0 +1,237 @@
+import { registerRoute, RouteLoadContext } from './route-registry';
+import { getProductsFromService, getProductByHandle, Product, ProductQuery } from './microservices';
+import { getCollections } from './product-service';
+import { getArticle, getPage, getPolicy } from './content-service';
+import {
+  LISTING_PAGE_SIZE,
+  SEARCH_SORT_OPTIONS,
+  COLLECTION_SORT_OPTIONS,
+  sortFromQuery,
+  loadProductListing
+} from './product-listing';
+import { NotFoundError } from '../middleware/error-handler';
+import { buildPagination } from '../utils/pagination';
+
+/**
+ * Built-in storefront routes (Shopify URL structure)
+ * Order matters: literal paths before the patterns they would also match.
+ */
+
+const queryString = (query: Record<string, unknown>, name: string): string =>
+  typeof query[name] === 'string' ? (query[name] as string) : '';
+
+interface CollectionRecord {
+  id: string;
+  title: string;
+  handle: string;
+  description?: string;
+  product_count?: number | string;
+  // Merchant's default order, one of COLLECTION_SORT_OPTIONS
+  default_sort_by?: string;
+}
+
+/**
+ * Product with the variant selected by `?variant=` (Shopify's selected_variant)
+ */
+const loadProduct = async ({ tenant, query }: RouteLoadContext, handle: string) => {
+  const product = await getProductByHandle(tenant.tenant_id, handle);
+  if (!product) {
+    throw new NotFoundError('Product not found');
+  }
+
+  const variants = product.variants || [];
+  const variantId = queryString(query, 'variant');
+  const selected = variantId ? variants.find(variant => String(variant.id) === variantId) : undefined;
+
+  return {
+    ...product,
+    selected_variant: selected || null,
+    selected_or_first_available_variant: selected || variants.find(variant => variant.available !== false) || variants[0] || null
+  } as Product;
+};
+
+/**
+ * Collection with one page of its products (Shopify's collection object)
+ */
+const loadCollection = async ({ tenant, path, query }: RouteLoadContext, collection: CollectionRecord, scope: ProductQuery) => {
+  const defaultSort = COLLECTION_SORT_OPTIONS.some(option => option.value === collection.default_sort_by)
+    ? collection.default_sort_by as string
+    : 'manual';
+
+  const listing = await loadProductListing({
+    tenantId: tenant.tenant_id,
+    path,
+    query,
+    scope,
+    sortOptions: COLLECTION_SORT_OPTIONS,
+    defaultSort
+  });
+
+  return {
+    collection: {
+      ...collection,
+      url: `/collections/${collection.handle}`,
+      products: listing.products,
+      // Matching the active filters; all_products_count ignores them
+      products_count: listing.total,
+      all_products_count: collection.product_count !== undefined ? Number(collection.product_count) : listing.total,
+      sort_by: listing.sortBy,
+      default_sort_by: defaultSort,
+      sort_options: COLLECTION_SORT_OPTIONS,
+      filters: listing.filters
+    },
+    products: listing.products,
+    paginate: listing.paginate
+  };
+};
+
+// Homepage
+registerRoute({
+  type: 'home',
+  pattern: '/',
+  template: 'index',
+  load: async ({ tenant }) => {
+    // Get featured products from microservice
+    const result = await getProductsFromService(tenant.tenant_id, { limit: 12 });
+    return { collections: [], featured_products: result.products };
+  }
+});
+
+// Product page: /products/:handle?variant=:id
+registerRoute({
+  type: 'product',
+  pattern: '/products/:product',
+  template: 'product',
+  load: async (context) => ({ product: await loadProduct(context, context.params.product) })
+});
+
+// Product within a collection: /collections/:collection/products/:product
+registerRoute({
+  type: 'product',
+  pattern: '/collections/:collection/products/:product',
+  template: 'product',
+  load: async (context) => {
+    const [product, [collection]] = await Promise.all([
+      loadProduct(context, context.params.product),
+      getCollections(context.tenant.tenant_id, { handle: context.params.collection, limit: 1 })
+    ]);
+    return { product, collection: collection || null };
+  }
+});
+
+// All products: /collections/all?sort_by=&page=&filter.p.vendor=...
+registerRoute({
+  type: 'collection',
+  pattern: '/collections/all',
+  template: 'collection',
+  load: (context) => loadCollection(context, {
+    id: 'all',
+    title: 'All products',
+    handle: 'all',
+    description: ''
+  }, {})
+});
+
+// Collection page: /collections/:handle?sort_by=&page=&filter.p.vendor=...
+registerRoute({
+  type: 'collection',
+  pattern: '/collections/:collection',
+  template: 'collection',
+  load: async (context) => {
+    // Only published collections are returned
+    const [collection] = await getCollections(context.tenant.tenant_id, { handle: context.params.collection, limit: 1 });
+    if (!collection) {
+      throw new NotFoundError('Collection not found');
+    }
+    return loadCollection(context, collection, { collection_id: collection.id });
+  }
+});
+
+// Search results: /search?q=&sort_by=&page=&filter.p.vendor=...
+registerRoute({
+  type: 'search',
+  pattern: '/search',
+  template: 'search',
+  // One entry per query string would flood the page cache
+  cache: { maxAge: 300, pageCache: false },
+  load: async ({ tenant, path, query }) => {
+    const terms = queryString(query, 'q').trim();
+
+    const listing = terms
+      ? await loadProductListing({
+        tenantId: tenant.tenant_id,
+        path,
+        query,
+        scope: { search: terms },
+        sortOptions: SEARCH_SORT_OPTIONS,
+        defaultSort: 'relevance'
+      })
+      : {
+        products: [],
+        total: 0,
+        sortBy: sortFromQuery(query, SEARCH_SORT_OPTIONS, 'relevance'),
+        filters: [],
+        paginate: buildPagination({ path, query, total: 0, page: 1, pageSize: LISTING_PAGE_SIZE })
+      };
+
+    return {
+      search: {
+        terms,
+        performed: terms.length > 0,
+        results: listing.products,
+        results_count: listing.total,
+        sort_by: listing.sortBy,
+        default_sort_by: 'relevance',
+        sort_options: SEARCH_SORT_OPTIONS,
+        filters: listing.filters
+      },
+      paginate: listing.paginate
+    };
+  }
+});
+
+// Blog article: /blogs/:blog/:article
+registerRoute({
+  type: 'article',
+  pattern: '/blogs/:blog/:article',
+  template: 'article',
+  load: async ({ tenant, params }) => {
+    const found = await getArticle(tenant.tenant_id, params.blog, params.article);
+    if (!found) {
+      throw new NotFoundError('Article not found');
+    }
+    return found;
+  }
+});
+
+// Shop policies: /policies/:type (rendered with the page template)
+registerRoute({
+  type: 'policy',
+  pattern: '/policies/:policy',
+  template: 'page',
+  load: async ({ tenant, params }) => {
+    const policy = await getPolicy(tenant.tenant_id, params.policy);
+    if (!policy) {
+      throw new NotFoundError('Policy not found');
+    }
+    return {
+      policy,
+      page: { title: policy.title, handle: policy.handle, content: policy.body }
+    };
+  }
+});
+
+// Static pages: /pages/:handle, rendered with page.<template_suffix> when the theme has it
+registerRoute({
+  type: 'page',
+  pattern: '/pages/:page',
+  template: 'page',
+  templateSuffix: (data) => data.page.template_suffix,
+  load: async ({ tenant, params }) => {
+    const page = await getPage(tenant.tenant_id, params.page);
+    if (!page) {
+      throw new NotFoundError('Page not found');
+    }
+    return { page };
+  }
+});
@@ -0,0 +1,74 @@
+import { ResourceSettingType } from './theme-settings';
+
+/**
+ * Surrogate keys name the resources a rendered page depends on, so a change
+ * to one product or collection only drops the pages that used it:
+ *   tenant_<id>, page_<type>, theme_<version>,
+ *   product_<id>, collection_<handle>, menu_<handle>
+ * Sitemaps and robots.txt use sitemap_index, sitemap_<type> and robots.
+ *
+ * Keys are tenant-relative; the page cache is already partitioned per tenant,
+ * the CDN header scopes them with the tenant id (see cdnSurrogateKeys).
+ */
+
+interface SurrogateKeySources {
+  tenantId: string;
+  themeVersion: string;
+  routeType: string;
+  // Route data handed to the template
+  data?: Record<string, any>;
+  // Theme settings after resource resolution
+  settings?: Record<string, any>;
+  resources?: Record<string, ResourceSettingType>;
+}
+
+// Route data fields holding products or collections
+const PRODUCT_FIELDS = new Set(['product', 'products', 'featured_products']);
+const COLLECTION_FIELDS = new Set(['collection', 'collections']);
+
+const asList = (value: unknown): any[] => (Array.isArray(value) ? value : value ? [value] : []);
+
+const addProducts = (keys: Set<string>, value: unknown) => {
+  for (const product of asList(value)) {
+    if (product?.id !== undefined) keys.add(`product_${product.id}`);
+  }
+};
+
+const addCollections = (keys: Set<string>, value: unknown) => {
+  for (const collection of asList(value)) {
+    const handle = typeof collection === 'string' ? collection : collection?.handle;
+    if (handle) keys.add(`collection_${handle}`);
+  }
+};
+
+/**
+ * Collect the surrogate keys of everything a page was rendered from
+ */
+export const collectSurrogateKeys = (sources: SurrogateKeySources): string[] => {
+  const keys = new Set<string>([
+    `tenant_${sources.tenantId}`,
+    `page_${sources.routeType}`,
+    `theme_${sources.themeVersion}`
+  ]);
+
+  for (const [field, value] of Object.entries(sources.data || {})) {
+    if (PRODUCT_FIELDS.has(field)) addProducts(keys, value);
+    if (COLLECTION_FIELDS.has(field)) addCollections(keys, value);
+  }
+
+  for (const [id, type] of Object.entries(sources.resources || {})) {
+    const value = sources.settings?.[id];
+    if (type === 'product') addProducts(keys, value);
+    if (type === 'collection') addCollections(keys, value);
+    if (type === 'link_list' && typeof value === 'string' && value) keys.add(`menu_${value}`);
+  }
+
+  // Keys travel in a space separated header
+  return [...keys].map(key => key.replace(/\s+/g, '-'));
+};
+
+/**
+ * CDN tags share one zone across tenants: keep `tenant_<id>` and prefix the rest with the tenant
+ */
+export const cdnSurrogateKeys = (tenantId: string, keys: string[]): string[] =>
+  keys.map(key => (key === `tenant_${tenantId}` ? key : `${tenantId}:${key}`));
@@ -0,0 +1,103 @@
+import { cacheGet, cacheSet, invalidateTags } from './tagged-cache';
+import { getRedisClient } from './index';
+
+jest.mock('./index', () => ({ getRedisClient: jest.fn() }));
+
+// Just enough of Redis for the tag indexes: strings, sorted sets and legacy plain sets
+const strings = new Map<string, string>();
+const zsets = new Map<string, Map<string, number>>();
+const sets = new Map<string, Set<string>>();
+
+const zremrangebyscore = (key: string, min: string, max: number) => {
+  const zset = zsets.get(key);
+  let removed = 0;
+  for (const [member, score] of zset || []) {
+    if (score <= max) {
+      zset?.delete(member);
+      removed++;
+    }
+  }
+  return removed;
+};
+
+const commands = {
+  setex: (key: string, ttl: number, value: string) => strings.set(key, value),
+  zadd: (key: string, score: number, member: string) => {
+    zsets.set(key, (zsets.get(key) || new Map()).set(member, score));
+  },
+  zremrangebyscore,
+  expire: () => 1
+};
+
+const redis = {
+  multi: () => {
+    const queued: (() => unknown)[] = [];
+    const pipeline: Record<string, unknown> = {
+      exec: async () => queued.map(run => [null, run()])
+    };
+    for (const [name, command] of Object.entries(commands)) {
+      pipeline[name] = (...args: unknown[]) => {
+        queued.push(() => (command as (...params: unknown[]) => unknown)(...args));
+        return pipeline;
+      };
+    }
+    return pipeline;
+  },
+  get: async (key: string) => strings.get(key) ?? null,
+  zremrangebyscore: async (key: string, min: string, max: number) => zremrangebyscore(key, min, max),
+  zrange: async (key: string) => [...(zsets.get(key)?.keys() || [])],
+  smembers: async (key: string) => [...(sets.get(key) || [])],
+  del: jest.fn(async (...keys: string[]) => keys.filter(key => strings.delete(key) || zsets.delete(key) || sets.delete(key)).length)
+};
+(getRedisClient as jest.Mock).mockReturnValue(redis);
+
+let now = 1_000_000;
+jest.spyOn(Date, 'now').mockImplementation(() => now);
+
+beforeEach(() => {
+  redis.del.mockClear();
+  strings.clear();
+  zsets.clear();
+  sets.clear();
+});
+
+describe('tagged cache', () => {
+  it('indexes entries by expiry and invalidates them by tag', async () => {
+    await cacheSet('a', { value: 1 }, 60, ['products:t1']);
+    await cacheSet('b', { value: 2 }, 60, ['products:t1', 'content:t1']);
+
+    expect(zsets.get('tags:products:t1')).toEqual(new Map([['a', now + 60000], ['b', now + 60000]]));
+
+    expect(await invalidateTags(['products:t1'])).toBe(2);
+    expect(await cacheGet('a')).toBeNull();
+    expect(zsets.has('tags:products:t1')).toBe(false);
+  });
+
+  it('prunes expired members on write', async () => {
+    await cacheSet('page:1', 'x', 60, ['page:t1:tenant_t1']);
+    now += 61000;
+    await cacheSet('page:2', 'y', 60, ['page:t1:tenant_t1']);
+
+    expect([...zsets.get('tags:page:t1:tenant_t1')!.keys()]).toEqual(['page:2']);
+  });
+
+  it('skips expired members on invalidation', async () => {
+    await cacheSet('old', 'x', 10, ['content:t1']);
+    await cacheSet('live', 'y', 600, ['content:t1']);
+    now += 11000;
+    // Redis expired the entry itself
+    strings.delete('old');
+
+    expect(await invalidateTags(['content:t1'])).toBe(1);
+    expect(redis.del).toHaveBeenCalledWith('live');
+    expect(redis.del.mock.calls.flat()).not.toContain('old');
+  });
+
+  it('still drops entries recorded in the legacy plain sets', async () => {
+    strings.set('legacy', '"x"');
+    sets.set('tag:content:t1', new Set(['legacy']));
+
+    expect(await invalidateTags(['content:t1'])).toBe(1);
+    expect(sets.has('tag:content:t1')).toBe(false);
+  });
+});
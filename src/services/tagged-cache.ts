@@ -0,0 +1,91 @@
+import { getRedisClient } from './index';
+import { logger } from '../utils/logger';
+
+/**
+ * Tag-indexed Redis cache
+ *
+ * Every entry is recorded in a Redis sorted set per tag, scored by the time it
+ * expires, so invalidating a tag costs O(live entries under the tag) instead of
+ * a KEYS scan over the whole keyspace. Expired members are pruned on every write
+ * and invalidation, so a busy tag (one entry per query variant) stays bounded.
+ * Keys and tags are plain (unprefixed) names: ioredis adds config.redis.keyPrefix
+ * to every key argument, including the members passed back to DEL.
+ */
+
+// Lifetime of an idle tag index; refreshed on every write
+const TAG_SET_TTL = 24 * 60 * 60;
+// Keys per DEL command when dropping a large tag
+const DELETE_BATCH_SIZE = 500;
+
+/**
+ * Tag names shared by the data caches
+ */
+export const cacheTags = {
+  tenant: (tenantId: string) => `tenant:${tenantId}`,
+  host: (host: string) => `host:${host}`,
+  // Product listings and searches
+  productLists: (tenantId: string) => `products:${tenantId}`,
+  // Every single-product entry of a tenant
+  products: (tenantId: string) => `product:${tenantId}`,
+  product: (tenantId: string, productId: string) => `product:${tenantId}:${productId}`,
+  collectionLists: (tenantId: string) => `collections:${tenantId}`,
+  collections: (tenantId: string) => `collection:${tenantId}`,
+  collection: (tenantId: string, handle: string) => `collection:${tenantId}:${handle}`,
+  // Pages, blogs, articles and policies
+  content: (tenantId: string) => `content:${tenantId}`,
+  redirects: (tenantId: string) => `redirects:${tenantId}`,
+  page: (tenantId: string, tag: string) => `page:${tenantId}:${tag}`
+};
+
+const tagSetKey = (tag: string) => `tags:${tag}`;
+// Plain sets used before the indexes were scored by expiry; they expire within TAG_SET_TTL of the upgrade
+const legacyTagSetKey = (tag: string) => `tag:${tag}`;
+
+/**
+ * Read a cached JSON value
+ */
+export const cacheGet = async <T>(key: string): Promise<T | null> => {
+  const cached = await getRedisClient().get(key);
+  return cached ? JSON.parse(cached) as T : null;
+};
+
+/**
+ * Store a JSON value and record it under each tag
+ */
+export const cacheSet = async (key: string, value: unknown, ttl: number, tags: string[]): Promise<void> => {
+  const now = Date.now();
+  const pipeline = getRedisClient().multi().setex(key, ttl, JSON.stringify(value));
+
+  for (const tag of tags) {
+    pipeline
+      .zadd(tagSetKey(tag), now + ttl * 1000, key)
+      .zremrangebyscore(tagSetKey(tag), '-inf', now)
+      .expire(tagSetKey(tag), Math.max(ttl, TAG_SET_TTL));
+  }
+
+  await pipeline.exec();
+};
+
+/**
+ * Delete every entry recorded under any of the tags
+ */
+export const invalidateTags = async (tags: string[]): Promise<number> => {
+  const redis = getRedisClient();
+  let removed = 0;
+
+  for (const tag of tags) {
+    await redis.zremrangebyscore(tagSetKey(tag), '-inf', Date.now());
+    const keys = [
+      ...await redis.zrange(tagSetKey(tag), 0, -1),
+      ...await redis.smembers(legacyTagSetKey(tag))
+    ];
+
+    for (let i = 0; i < keys.length; i += DELETE_BATCH_SIZE) {
+      removed += await redis.del(...keys.slice(i, i + DELETE_BATCH_SIZE));
+    }
+    await redis.del(tagSetKey(tag), legacyTagSetKey(tag));
+  }
+
+  logger.debug({ tags, removed }, 'Cache tags invalidated');
+  return removed;
+};
@@ -1,12 +1,22 @@
-import { getDbPool, getRedisClient } from './index';
+import { getDbPool } from './index';
+import { cacheGet, cacheSet, cacheTags, invalidateTags } from './tagged-cache';
+import { singleFlight } from './single-flight';
+import { invalidatePagesByTags } from './page-cache';
+import { publishInvalidation } from './invalidation-bus';
 import { logger } from '../utils/logger';
 
-interface Tenant {
+export interface Tenant {
   id: string;
   tenant_id: string;
   name: string;
   custom_domain?: string;
   status: string;
+  plan?: string;
+  currency?: string;
+  money_format?: string;
+  money_with_currency_format?: string;
+  locale?: string;
+  timezone?: string;
 }
 
 /**
@@ -17,52 +27,85 @@ interface Tenant {
  * 3. Cache result in Redis
  */
 export const getTenantFromHost = async (host: string): Promise<Tenant | null> => {
-  const redis = getRedisClient();
   const cacheKey = `tenant:host:${host}`;
   
   try {
-    // Try cache first
-    const cached = await redis.get(cacheKey);
-    if (cached) {
-      logger.debug({ host }, 'Tenant cache hit');
-      return JSON.parse(cached);
-    }
-    
-    // Cache miss - query database
-    const pool = getDbPool();
-    const result = await pool.query(
-      `SELECT t.id, t.tenant_id, t.name, t.custom_domain, t.status
-       FROM platform.tenants t
-       INNER JOIN platform.domain_mapping dm ON t.tenant_id = dm.tenant_id
-       WHERE dm.domain = $1 AND dm.verified = true AND t.status = 'active'`,
-      [host]
-    );
-    
-    if (result.rows.length === 0) {
-      logger.warn({ host }, 'Tenant not found for host');
-      return null;
-    }
-    
-    const tenant = result.rows[0] as Tenant;
-    
-    // Cache for 1 hour
-    await redis.setex(cacheKey, 3600, JSON.stringify(tenant));
-    
-    logger.info({ tenant_id: tenant.tenant_id, host }, 'Tenant resolved from database');
-    
-    return tenant;
+    // Concurrent lookups for the same host share one query
+    return await singleFlight('tenant', cacheKey, async () => {
+      // Try cache first
+      const cached = await cacheGet<Tenant>(cacheKey);
+      if (cached) {
+        logger.debug({ host }, 'Tenant cache hit');
+        return cached;
+      }
+      
+      // Cache miss - query database
+      const pool = getDbPool();
+      const result = await pool.query(
+        `SELECT t.id, t.tenant_id, t.name, t.custom_domain, t.status, t.plan,
+                t.currency, t.money_format, t.money_with_currency_format, t.locale, t.timezone
+         FROM platform.tenants t
+         INNER JOIN platform.domain_mapping dm ON t.tenant_id = dm.tenant_id
+         WHERE dm.domain = $1 AND dm.verified = true AND t.status = 'active'`,
+        [host]
+      );
+      
+      if (result.rows.length === 0) {
+        logger.warn({ host }, 'Tenant not found for host');
+        return null;
+      }
+      
+      const tenant = result.rows[0] as Tenant;
+      
+      // Cache for 1 hour
+      await cacheSet(cacheKey, tenant, 3600, [cacheTags.tenant(tenant.tenant_id), cacheTags.host(host)]);
+      
+      logger.info({ tenant_id: tenant.tenant_id, host }, 'Tenant resolved from database');
+      
+      return tenant;
+    });
   } catch (error) {
     logger.error({ error, host }, 'Error resolving tenant');
     throw error;
   }
 };
 
+/**
+ * Verified domains of a tenant (used to build absolute URLs for CDN purges)
+ */
+export const getTenantDomains = async (tenantId: string): Promise<string[]> => {
+  const result = await getDbPool().query(
+    `SELECT domain FROM platform.domain_mapping WHERE tenant_id = $1 AND verified = true`,
+    [tenantId]
+  );
+  return result.rows.map(row => row.domain as string);
+};
+
+/**
+ * Host absolute storefront URLs should use: the tenant's own domain, or the
+ * host the request came in on
+ */
+export const canonicalHost = (tenant: Tenant, requestHost: string): string =>
+  tenant.custom_domain || requestHost;
+
 /**
  * Invalidate tenant cache (call after domain changes)
  */
 export const invalidateTenantCache = async (host: string): Promise<void> => {
-  const redis = getRedisClient();
-  const cacheKey = `tenant:host:${host}`;
-  await redis.del(cacheKey);
+  await invalidateTags([cacheTags.host(host)]);
   logger.info({ host }, 'Tenant cache invalidated');
 };
+
+/**
+ * Invalidate everything cached for a tenant after a settings change
+ * (name, plan, currency, locale, domains) on every pod
+ */
+export const invalidateTenant = async (tenantId: string, hosts?: string[]): Promise<void> => {
+  // Every cached host of the tenant, plus hosts that no longer map to it
+  await invalidateTags([cacheTags.tenant(tenantId), ...(hosts || []).map(cacheTags.host)]);
+  
+  await invalidatePagesByTags(tenantId, [`tenant_${tenantId}`]);
+  await publishInvalidation({ type: 'tenant', tenantId, ids: hosts });
+  
+  logger.info({ tenant_id: tenantId, hosts }, 'Tenant caches invalidated');
+};
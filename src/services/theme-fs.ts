@@ -0,0 +1,48 @@
+import { FS } from 'liquidjs';
+
+/**
+ * In-memory Liquid file system backed by a single theme's files.
+ * Paths are theme-relative (e.g. `snippets/price.liquid`). Each tenant theme
+ * gets its own instance, so partial lookups can never reach another tenant.
+ */
+export const createThemeFileSystem = (files: Record<string, string>): FS => {
+  const existsSync = (filepath: string) => Object.prototype.hasOwnProperty.call(files, filepath);
+
+  const readFileSync = (filepath: string) => {
+    if (!existsSync(filepath)) {
+      throw new Error(`ENOENT: ${filepath}`);
+    }
+    return files[filepath];
+  };
+
+  return {
+    sep: '/',
+    exists: async (filepath: string) => existsSync(filepath),
+    existsSync,
+    readFile: async (filepath: string) => readFileSync(filepath),
+    readFileSync,
+
+    resolve: (dir: string, file: string, ext: string) => {
+      const segments: string[] = [];
+      const parts = dir === '.' ? file.split('/') : [...dir.split('/'), ...file.split('/')];
+
+      for (const segment of parts) {
+        if (segment === '' || segment === '.') continue;
+        // Never walk above the theme root
+        if (segment === '..') {
+          segments.pop();
+          continue;
+        }
+        segments.push(segment);
+      }
+
+      const filepath = segments.join('/');
+      const basename = segments[segments.length - 1] || '';
+      return basename.includes('.') ? filepath : filepath + ext;
+    },
+
+    contains: (root: string, file: string) => root === '.' || file.startsWith(`${root}/`),
+
+    dirname: (filepath: string) => filepath.split('/').slice(0, -1).join('/')
+  };
+};
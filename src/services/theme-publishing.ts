@@ -0,0 +1,175 @@
+import { PoolClient } from 'pg';
+import { getDbPool } from './index';
+import { invalidateThemeCache } from './theme-service';
+import { purgeCDNCache } from './cdn-purge';
+import { logger } from '../utils/logger';
+import { NotFoundError } from '../middleware/error-handler';
+
+/**
+ * Theme publication history
+ * Table tenant_{id}.theme_publications:
+ *   id bigserial, theme_id, version, s3_key, settings jsonb,
+ *   published_by text, action text ('publish'), published_at timestamptz,
+ *   rolled_back_at timestamptz (null while the publication is live or restorable)
+ *
+ * The live theme is the newest publication that has not been rolled back.
+ */
+
+export interface ThemePublication {
+  id: string;
+  theme_id: string;
+  version: string;
+  s3_key: string;
+  published_by?: string;
+  published_at: string;
+  rolled_back_at?: string | null;
+}
+
+/**
+ * Run a publication change in one transaction, serialized per tenant
+ */
+const withPublicationLock = async <T>(tenantId: string, change: (client: PoolClient) => Promise<T>): Promise<T> => {
+  const client = await getDbPool().connect();
+
+  try {
+    await client.query('BEGIN');
+    await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [`theme_publication:${tenantId}`]);
+    const result = await change(client);
+    await client.query('COMMIT');
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+};
+
+/**
+ * Make every cache layer drop the old theme after a publication change
+ */
+const invalidatePublishedTheme = async (tenantId: string, versions: string[]): Promise<void> => {
+  await invalidateThemeCache(tenantId);
+  await purgeCDNCache(tenantId);
+  logger.info({ tenant_id: tenantId, versions }, 'Theme caches invalidated after publication change');
+};
+
+/**
+ * Atomically publish a theme: it becomes `main` and a new publication is recorded
+ */
+export const publishTheme = async (
+  tenantId: string,
+  themeId: string,
+  publishedBy?: string
+): Promise<ThemePublication> => {
+  const { publication, previousVersion } = await withPublicationLock(tenantId, async (client) => {
+    const theme = await client.query(
+      `SELECT id, version, s3_key, settings FROM tenant_${tenantId}.themes WHERE id = $1 FOR UPDATE`,
+      [themeId]
+    );
+    if (theme.rows.length === 0) {
+      throw new NotFoundError(`Theme ${themeId} not found`);
+    }
+
+    const current = await client.query(
+      `SELECT version FROM tenant_${tenantId}.theme_publications
+       WHERE rolled_back_at IS NULL ORDER BY id DESC LIMIT 1`
+    );
+
+    await client.query(
+      `UPDATE tenant_${tenantId}.themes SET role = 'unpublished' WHERE role = 'main' AND id <> $1`,
+      [themeId]
+    );
+    await client.query(`UPDATE tenant_${tenantId}.themes SET role = 'main' WHERE id = $1`, [themeId]);
+
+    const { id, version, s3_key, settings } = theme.rows[0];
+    const inserted = await client.query(
+      `INSERT INTO tenant_${tenantId}.theme_publications
+         (theme_id, version, s3_key, settings, published_by, action)
+       VALUES ($1, $2, $3, $4, $5, 'publish')
+       RETURNING id, theme_id, version, s3_key, published_by, published_at, rolled_back_at`,
+      [id, version, s3_key, settings, publishedBy || null]
+    );
+
+    return {
+      publication: inserted.rows[0] as ThemePublication,
+      previousVersion: current.rows[0]?.version as string | undefined
+    };
+  });
+
+  await invalidatePublishedTheme(tenantId, [previousVersion, publication.version].filter(Boolean) as string[]);
+
+  logger.info({
+    tenant_id: tenantId,
+    theme_id: themeId,
+    version: publication.version,
+    previous_version: previousVersion
+  }, 'Theme published');
+
+  return publication;
+};
+
+/**
+ * Roll back to the previous publication in one step.
+ * The live publication is marked as rolled back; repeated calls walk further back.
+ */
+export const rollbackTheme = async (tenantId: string): Promise<ThemePublication | null> => {
+  const change = await withPublicationLock(tenantId, async (client) => {
+    const live = await client.query(
+      `SELECT id, theme_id, version, s3_key, published_by, published_at, rolled_back_at
+       FROM tenant_${tenantId}.theme_publications
+       WHERE rolled_back_at IS NULL
+       ORDER BY id DESC
+       LIMIT 2`
+    );
+    if (live.rows.length < 2) {
+      return null;
+    }
+
+    const [current, previous] = live.rows as ThemePublication[];
+
+    await client.query(
+      `UPDATE tenant_${tenantId}.theme_publications SET rolled_back_at = NOW() WHERE id = $1`,
+      [current.id]
+    );
+    if (current.theme_id !== previous.theme_id) {
+      await client.query(
+        `UPDATE tenant_${tenantId}.themes SET role = 'unpublished' WHERE id = $1`,
+        [current.theme_id]
+      );
+    }
+    await client.query(`UPDATE tenant_${tenantId}.themes SET role = 'main' WHERE id = $1`, [previous.theme_id]);
+
+    return { current, previous };
+  });
+
+  if (!change) {
+    logger.warn({ tenant_id: tenantId }, 'Theme rollback requested without a previous publication');
+    return null;
+  }
+
+  await invalidatePublishedTheme(tenantId, [change.current.version, change.previous.version]);
+
+  logger.info({
+    tenant_id: tenantId,
+    from_version: change.current.version,
+    to_version: change.previous.version
+  }, 'Theme rolled back');
+
+  return change.previous;
+};
+
+/**
+ * Published versions of a tenant, newest first
+ */
+export const getThemeHistory = async (tenantId: string, limit: number = 20): Promise<ThemePublication[]> => {
+  const result = await getDbPool().query(
+    `SELECT id, theme_id, version, s3_key, published_by, published_at, rolled_back_at
+     FROM tenant_${tenantId}.theme_publications
+     ORDER BY id DESC
+     LIMIT $1`,
+    [limit]
+  );
+
+  return result.rows as ThemePublication[];
+};
@@ -1,16 +1,41 @@
-import { GetObjectCommand } from '@aws-sdk/client-s3';
+import { GetObjectCommand, ListObjectsV2Command } from '@aws-sdk/client-s3';
 import { getS3Client, getRedisClient } from './index';
+import { evictLiquidForTenant } from './liquid-engine';
+import { invalidatePagesByTags } from './page-cache';
+import { publishInvalidation, registerInvalidationHandler } from './invalidation-bus';
+import { singleFlight, withRefillLock } from './single-flight';
+import { buildThemeSettings, ResourceSettingType } from './theme-settings';
 import { config } from '../config';
 import { logger } from '../utils/logger';
+import { mapWithConcurrency } from '../utils/concurrency';
 import NodeCache from 'node-cache';
 
-interface Theme {
+export interface Theme {
   id: string;
   name: string;
   version: string;
   s3_key: string;
+  role?: string;
   settings?: any;
   templates?: Record<string, string>;
+  // Snippets, sections, layouts and config keyed by theme-relative path
+  files?: Record<string, string>;
+  locales?: Record<string, any>;
+  manifest?: ThemeManifest;
+  // Schema violations found in settings_data when the theme loaded
+  settings_errors?: string[];
+  setting_resources?: Record<string, ResourceSettingType>;
+}
+
+// Names of the files a loaded theme contains, per kind
+export interface ThemeManifest {
+  templates: string[];
+  layouts: string[];
+  sections: string[];
+  snippets: string[];
+  assets: string[];
+  locales: string[];
+  config: string[];
 }
 
 // In-memory cache for compiled templates
@@ -38,157 +63,372 @@ export const getThemeForTenant = async (tenantId: string): Promise<Theme | null>
       return memCached;
     }
     
-    // Check Redis cache
-    const redis = getRedisClient();
-    const redisCached = await redis.get(cacheKey);
-    if (redisCached) {
-      const theme = JSON.parse(redisCached) as Theme;
-      memoryCache.set(cacheKey, theme);
-      logger.debug({ tenant_id: tenantId }, 'Theme Redis cache hit');
-      return theme;
-    }
+    // Concurrent misses share one load; across pods one refills Redis while the others wait
+    const theme = await singleFlight('theme', cacheKey, async () => {
+      const redis = getRedisClient();
+      const readRedis = async () => {
+        const redisCached = await redis.get(cacheKey);
+        return redisCached ? JSON.parse(redisCached) as Theme : null;
+      };
+      
+      // Check Redis cache
+      const redisCached = await readRedis();
+      if (redisCached) {
+        logger.debug({ tenant_id: tenantId }, 'Theme Redis cache hit');
+        return redisCached;
+      }
+      
+      return withRefillLock('theme', cacheKey, readRedis, async () => {
+        // Load from database and S3
+        const loaded = await loadThemeFromStorage(tenantId);
+        if (!loaded) {
+          return null;
+        }
+        
+        await redis.setex(cacheKey, config.cache.themesCacheTTL, JSON.stringify(loaded));
+        
+        logger.info({
+          tenant_id: tenantId,
+          theme_id: loaded.id,
+          templates: loaded.manifest?.templates,
+          sections: loaded.manifest?.sections.length,
+          snippets: loaded.manifest?.snippets.length,
+          assets: loaded.manifest?.assets.length,
+          locales: loaded.manifest?.locales
+        }, 'Theme loaded from storage');
+        
+        return loaded;
+      });
+    });
     
-    // Load from database and S3
-    const theme = await loadThemeFromStorage(tenantId);
-    if (!theme) {
-      return null;
+    if (theme) {
+      memoryCache.set(cacheKey, theme);
     }
     
-    // Cache in both layers
-    memoryCache.set(cacheKey, theme);
-    await redis.setex(cacheKey, config.cache.themesCacheTTL, JSON.stringify(theme));
+    return theme;
+  } catch (error) {
+    logger.error({ error, tenant_id: tenantId }, 'Error loading theme');
+    throw error;
+  }
+};
+
+/**
+ * Load any theme of a tenant (e.g. an unpublished one for preview).
+ * Always reads storage: previews must never populate or read the shared caches.
+ */
+export const getThemeForPreview = async (tenantId: string, themeId: string): Promise<Theme | null> => {
+  try {
+    const theme = await loadThemeFromStorage(tenantId, themeId);
     
-    logger.info({ tenant_id: tenantId, theme_id: theme.id }, 'Theme loaded from storage');
+    if (theme) {
+      logger.info({ tenant_id: tenantId, theme_id: theme.id }, 'Preview theme loaded from storage');
+    }
     
     return theme;
   } catch (error) {
-    logger.error({ error, tenant_id: tenantId }, 'Error loading theme');
+    logger.error({ error, tenant_id: tenantId, theme_id: themeId }, 'Error loading preview theme');
     throw error;
   }
 };
 
 /**
- * Load theme from database and fetch templates from S3
+ * Look up theme metadata without loading its files (e.g. to serve preview assets)
  */
-const loadThemeFromStorage = async (tenantId: string): Promise<Theme | null> => {
+export const getThemeMetadata = async (
+  tenantId: string,
+  themeId: string
+): Promise<Pick<Theme, 'id' | 'name' | 'version' | 's3_key' | 'role'> | null> => {
   const { getDbPool } = await import('./index');
-  const pool = getDbPool();
-  
-  // Get theme metadata from database
-  const result = await pool.query(
-    `SELECT id, name, version, s3_key, settings
+  const result = await getDbPool().query(
+    `SELECT id, name, version, s3_key, role
      FROM tenant_${tenantId}.themes
-     WHERE role = 'main'
-     LIMIT 1`
+     WHERE id = $1
+     LIMIT 1`,
+    [themeId]
   );
   
+  return result.rows[0] || null;
+};
+
+/**
+ * Load theme from database and fetch its files from S3
+ */
+const loadThemeFromStorage = async (tenantId: string, themeId?: string): Promise<Theme | null> => {
+  const { getDbPool } = await import('./index');
+  const pool = getDbPool();
+  
+  // Get theme metadata from database (published theme unless a specific one is requested)
+  let result = themeId
+    ? await pool.query(
+      `SELECT id, name, version, s3_key, settings, role
+       FROM tenant_${tenantId}.themes
+       WHERE id = $1
+       LIMIT 1`,
+      [themeId]
+    )
+    : await pool.query(
+      // The current publication pins the exact version, so rollbacks restore it
+      `SELECT t.id, t.name, p.version, p.s3_key, COALESCE(p.settings, t.settings) AS settings, t.role
+       FROM tenant_${tenantId}.theme_publications p
+       INNER JOIN tenant_${tenantId}.themes t ON t.id = p.theme_id
+       WHERE p.rolled_back_at IS NULL
+       ORDER BY p.id DESC
+       LIMIT 1`
+    );
+  
+  // Tenants without publication history yet
+  if (result.rows.length === 0 && !themeId) {
+    result = await pool.query(
+      `SELECT id, name, version, s3_key, settings, role
+       FROM tenant_${tenantId}.themes
+       WHERE role = 'main'
+       LIMIT 1`
+    );
+  }
+  
   if (result.rows.length === 0) {
     return null;
   }
   
   const themeData = result.rows[0];
   
-  // Fetch template files from S3
-  const templates = await fetchThemeTemplatesFromS3(themeData.s3_key);
+  // Fetch every theme file listed by the manifest (or the S3 prefix)
+  const contents = await fetchThemeFromS3(themeData.s3_key);
+  
+  // Validate settings against config/settings_schema.json and apply defaults
+  const settingsData = themeData.settings ?? parseJsonFile(contents.files?.['config/settings_data.json']);
+  const { settings, errors, resources } = buildThemeSettings(
+    contents.files?.['config/settings_schema.json'],
+    settingsData
+  );
+  
+  if (errors.length > 0) {
+    logger.warn({ tenant_id: tenantId, theme_id: themeData.id, errors }, 'Theme settings violate settings schema');
+  }
   
   return {
     ...themeData,
-    templates
+    ...contents,
+    settings,
+    settings_errors: errors,
+    setting_resources: resources
   };
 };
 
 /**
- * Fetch theme templates from S3
+ * Fetch theme files from S3
  * Theme structure in S3:
  * themes/{tenant_id}/{theme_version}/
+ *   - theme.json          (optional manifest: { "files": ["templates/index.liquid", ...] })
  *   - templates/
  *     - index.liquid
  *     - product.liquid
- *     - collection.liquid
- *     - page.liquid
- *   - assets/
+ *     - 404.liquid
+ *     - customers/
+ *       - login.liquid
+ *   - layout/
+ *     - theme.liquid
+ *   - sections/
+ *   - snippets/
+ *   - config/
+ *     - settings_schema.json
+ *   - locales/
+ *     - en.default.json
+ *   - assets/             (listed only, served by routes/assets)
  *     - style.css
  *     - script.js
  */
-const fetchThemeTemplatesFromS3 = async (s3Key: string): Promise<Record<string, string>> => {
-  const s3 = getS3Client();
+const fetchThemeFromS3 = async (
+  s3Key: string
+): Promise<Pick<Theme, 'templates' | 'files' | 'locales' | 'manifest'>> => {
+  const startTime = Date.now();
+  const paths = (await readThemeManifest(s3Key)) ?? (await listThemePrefix(s3Key));
+  
+  const manifest: ThemeManifest = {
+    templates: [],
+    layouts: [],
+    sections: [],
+    snippets: [],
+    assets: [],
+    locales: [],
+    config: []
+  };
   const templates: Record<string, string> = {};
+  const files: Record<string, string> = {};
+  const locales: Record<string, any> = {};
   
-  // List of template files to fetch
-  const templateFiles = ['index', 'product', 'collection', 'page', 'cart', 'search'];
+  const downloads = paths.filter(path => classifyThemeFile(path) && !path.startsWith('assets/'));
+  for (const path of paths.filter(path => path.startsWith('assets/'))) {
+    manifest.assets.push(path.slice('assets/'.length));
+  }
   
-  for (const templateName of templateFiles) {
-    try {
-      const command = new GetObjectCommand({
-        Bucket: config.s3.bucketName,
-        Key: `${s3Key}/templates/${templateName}.liquid`
-      });
-      
-      const response = await s3.send(command);
-      const body = await response.Body?.transformToString();
-      
-      if (body) {
-        templates[templateName] = body;
-      }
-    } catch (error: any) {
-      // Template might not exist, that's ok
-      if (error.name !== 'NoSuchKey') {
-        logger.warn({ s3_key: s3Key, template: templateName, error }, 'Error fetching template');
+  const bodies = await mapWithConcurrency(downloads, config.s3.maxConcurrency, path =>
+    readThemeFile(s3Key, path)
+  );
+  
+  downloads.forEach((path, index) => {
+    const body = bodies[index];
+    const kind = classifyThemeFile(path);
+    if (body === null || !kind) {
+      return;
+    }
+    
+    const name = path.slice(path.indexOf('/') + 1).replace(/\.(liquid|json)$/, '');
+    
+    if (kind === 'templates') {
+      templates[name] = body;
+    } else if (kind === 'locales') {
+      try {
+        locales[name] = JSON.parse(body);
+      } catch (error) {
+        logger.warn({ s3_key: s3Key, file: path }, 'Invalid locale file');
+        return;
       }
+    } else {
+      files[path] = body;
     }
-  }
+    
+    manifest[kind].push(name);
+  });
   
-  return templates;
+  logger.debug({
+    s3_key: s3Key,
+    files: downloads.length,
+    assets: manifest.assets.length,
+    duration_ms: Date.now() - startTime
+  }, 'Theme files fetched from S3');
+  
+  return { templates, files, locales, manifest };
+};
+
+const parseJsonFile = (source?: string): unknown => {
+  if (!source) return undefined;
+  try {
+    return JSON.parse(source);
+  } catch (error) {
+    return undefined;
+  }
 };
 
 /**
- * Invalidate theme cache (call after theme update)
+ * Map a theme-relative path to its manifest section (null for unsupported files)
  */
-export const invalidateThemeCache = async (tenantId: string): Promise<void> => {
-  const cacheKey = `theme:${tenantId}`;
+const classifyThemeFile = (path: string): keyof ThemeManifest | null => {
+  const [directory] = path.split('/', 1);
   
-  // Clear memory cache
-  memoryCache.del(cacheKey);
-  
-  // Clear Redis cache
-  const redis = getRedisClient();
-  await redis.del(cacheKey);
-  
-  logger.info({ tenant_id: tenantId }, 'Theme cache invalidated');
+  switch (directory) {
+    case 'templates':
+      return path.endsWith('.liquid') ? 'templates' : null;
+    case 'layout':
+      return path.endsWith('.liquid') ? 'layouts' : null;
+    case 'sections':
+    case 'snippets':
+      return path.endsWith('.liquid') ? directory : null;
+    case 'locales':
+    case 'config':
+      return path.endsWith('.json') ? directory : null;
+    case 'assets':
+      return 'assets';
+    default:
+      return null;
+  }
 };
 
 /**
- * Purge CDN cache for tenant (Cloudflare)
+ * Read the optional theme.json manifest
  */
-export const purgeCDNCache = async (tenantId: string, paths?: string[]): Promise<void> => {
-  if (!config.cloudflare.enabled) {
-    logger.debug('Cloudflare CDN purge skipped (not enabled)');
-    return;
+const readThemeManifest = async (s3Key: string): Promise<string[] | null> => {
+  const body = await readThemeFile(s3Key, 'theme.json');
+  if (body === null) {
+    return null;
   }
   
   try {
-    // Purge by surrogate key
-    const response = await fetch(
-      `https://api.cloudflare.com/client/v4/zones/${config.cloudflare.zoneId}/purge_cache`,
-      {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${config.cloudflare.apiToken}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          tags: [`tenant_${tenantId}`]
-        })
-      }
-    );
+    const manifest = JSON.parse(body);
+    if (Array.isArray(manifest.files)) {
+      return manifest.files.filter((file: unknown): file is string => typeof file === 'string');
+    }
+  } catch (error) {
+    logger.warn({ s3_key: s3Key }, 'Invalid theme.json manifest, listing S3 prefix instead');
+  }
+  
+  return null;
+};
+
+/**
+ * List all files under the theme's S3 prefix
+ */
+const listThemePrefix = async (s3Key: string): Promise<string[]> => {
+  const s3 = getS3Client();
+  const paths: string[] = [];
+  let continuationToken: string | undefined;
+  
+  do {
+    const listing = await s3.send(new ListObjectsV2Command({
+      Bucket: config.s3.bucketName,
+      Prefix: `${s3Key}/`,
+      ContinuationToken: continuationToken
+    }));
     
-    if (!response.ok) {
-      throw new Error(`Cloudflare API error: ${response.statusText}`);
+    for (const object of listing.Contents || []) {
+      if (object.Key && !object.Key.endsWith('/')) {
+        paths.push(object.Key.slice(s3Key.length + 1));
+      }
     }
     
-    logger.info({ tenant_id: tenantId }, 'CDN cache purged successfully');
-  } catch (error) {
-    logger.error({ error, tenant_id: tenantId }, 'Error purging CDN cache');
-    // Don't throw - cache purge failure shouldn't break the app
+    continuationToken = listing.IsTruncated ? listing.NextContinuationToken : undefined;
+  } while (continuationToken);
+  
+  return paths;
+};
+
+/**
+ * Read a single theme file, null if it does not exist
+ */
+const readThemeFile = async (s3Key: string, path: string): Promise<string | null> => {
+  try {
+    const response = await getS3Client().send(new GetObjectCommand({
+      Bucket: config.s3.bucketName,
+      Key: `${s3Key}/${path}`
+    }));
+    
+    return (await response.Body?.transformToString()) ?? null;
+  } catch (error: any) {
+    if (error.name !== 'NoSuchKey') {
+      logger.warn({ s3_key: s3Key, file: path, error }, 'Error fetching theme file');
+    } else if (path !== 'theme.json') {
+      logger.warn({ s3_key: s3Key, file: path }, 'Theme file listed but missing');
+    }
+    return null;
   }
 };
+
+/**
+ * Drop this pod's in-memory copy of a tenant's theme and its compiled engines
+ */
+const evictLocalTheme = (tenantId: string): void => {
+  memoryCache.del(`theme:${tenantId}`);
+  evictLiquidForTenant(tenantId);
+};
+
+// Theme and tenant changes (plan, currency, locale) on any pod
+registerInvalidationHandler(['theme', 'tenant'], event => evictLocalTheme(event.tenantId));
+
+/**
+ * Invalidate theme cache (call after theme update)
+ */
+export const invalidateThemeCache = async (tenantId: string): Promise<void> => {
+  const cacheKey = `theme:${tenantId}`;
+  
+  // Clear Redis cache
+  const redis = getRedisClient();
+  await redis.del(cacheKey);
+  
+  // Rendered pages embed theme output even when the version is unchanged
+  await invalidatePagesByTags(tenantId, [`tenant_${tenantId}`]);
+  
+  // Clear memory caches and compiled engines on every pod
+  await publishInvalidation({ type: 'theme', tenantId });
+  
+  logger.info({ tenant_id: tenantId }, 'Theme cache invalidated');
+};
@@ -0,0 +1,184 @@
+import { z } from 'zod';
+import { getProductByHandle } from './microservices';
+import { getCollections } from './product-service';
+import { logger } from '../utils/logger';
+
+// config/settings_schema.json: groups of setting definitions (Shopify format)
+const settingDefinitionSchema = z.object({
+  type: z.string(),
+  id: z.string().optional(),
+  label: z.string().optional(),
+  default: z.unknown().optional(),
+  min: z.number().optional(),
+  max: z.number().optional(),
+  step: z.number().optional(),
+  options: z.array(z.object({ value: z.string(), label: z.string().optional() })).optional()
+}).passthrough();
+
+const settingsSchemaFile = z.array(z.object({
+  name: z.string(),
+  settings: z.array(settingDefinitionSchema).default([])
+}).passthrough());
+
+type SettingDefinition = z.infer<typeof settingDefinitionSchema>;
+
+export type ResourceSettingType = 'product' | 'collection' | 'link_list';
+
+const RESOURCE_TYPES = new Set<string>(['product', 'collection', 'link_list']);
+
+export interface ThemeSettingsResult {
+  settings: Record<string, any>;
+  errors: string[];
+  // Settings holding a resource handle; products and collections are resolved
+  // to objects at render time, menus (link_list) stay handles
+  resources: Record<string, ResourceSettingType>;
+}
+
+const HEX_COLOR = /^#(?:[0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+
+// Informational entries in the schema that carry no value
+const DISPLAY_ONLY_TYPES = new Set(['header', 'paragraph']);
+
+/**
+ * Build the zod validator for a single setting value
+ */
+const valueSchemaFor = (definition: SettingDefinition): z.ZodTypeAny => {
+  switch (definition.type) {
+    case 'color':
+    case 'color_background':
+      return z.string().regex(HEX_COLOR, 'Expected a hex color');
+    case 'range':
+    case 'number': {
+      let schema = z.number();
+      if (definition.min !== undefined) schema = schema.min(definition.min);
+      if (definition.max !== undefined) schema = schema.max(definition.max);
+      return schema;
+    }
+    case 'checkbox':
+      return z.boolean();
+    case 'select':
+    case 'radio': {
+      const values = (definition.options || []).map(option => option.value);
+      return z.string().refine(value => values.includes(value), {
+        message: `Expected one of: ${values.join(', ')}`
+      });
+    }
+    case 'text':
+    case 'textarea':
+    case 'richtext':
+    case 'html':
+    case 'url':
+    case 'video_url':
+    case 'image_picker':
+    case 'font':
+    case 'font_picker':
+    case 'product':
+    case 'collection':
+    case 'page':
+    case 'blog':
+    case 'link_list':
+      return z.string();
+    default:
+      return z.unknown();
+  }
+};
+
+/**
+ * Settings data may be stored flat or in Shopify's settings_data.json shape ({ current: {...} })
+ */
+const currentSettings = (settingsData: unknown): Record<string, any> => {
+  if (!settingsData || typeof settingsData !== 'object') {
+    return {};
+  }
+  const data = settingsData as Record<string, any>;
+  return data.current && typeof data.current === 'object' ? data.current : data;
+};
+
+/**
+ * Validate settings data against the theme's settings schema and merge in defaults.
+ * Invalid values are reported and replaced by the setting's default.
+ */
+export const buildThemeSettings = (
+  schemaSource: string | undefined,
+  settingsData: unknown
+): ThemeSettingsResult => {
+  const current = currentSettings(settingsData);
+  const result: ThemeSettingsResult = { settings: { ...current }, errors: [], resources: {} };
+
+  if (!schemaSource) {
+    return result;
+  }
+
+  let groups: z.infer<typeof settingsSchemaFile>;
+  try {
+    const parsed = settingsSchemaFile.safeParse(JSON.parse(schemaSource));
+    if (!parsed.success) {
+      result.errors.push(...parsed.error.issues.map(issue => `settings_schema.json ${issue.path.join('.')}: ${issue.message}`));
+      return result;
+    }
+    groups = parsed.data;
+  } catch (error) {
+    result.errors.push('settings_schema.json: invalid JSON');
+    return result;
+  }
+
+  for (const definition of groups.flatMap(group => group.settings)) {
+    if (!definition.id || DISPLAY_ONLY_TYPES.has(definition.type)) {
+      continue;
+    }
+
+    if (RESOURCE_TYPES.has(definition.type)) {
+      result.resources[definition.id] = definition.type as ResourceSettingType;
+    }
+
+    const value = current[definition.id];
+    if (value === undefined || value === null || value === '') {
+      result.settings[definition.id] = definition.default ?? null;
+      continue;
+    }
+
+    const parsed = valueSchemaFor(definition).safeParse(value);
+    if (parsed.success) {
+      result.settings[definition.id] = parsed.data;
+    } else {
+      result.errors.push(`${definition.id} (${definition.type}): ${parsed.error.issues[0]?.message}`);
+      result.settings[definition.id] = definition.default ?? null;
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Replace product/collection handles in theme settings with the actual objects
+ */
+export const resolveResourceSettings = async (
+  tenantId: string,
+  settings: Record<string, any>,
+  resources: Record<string, ResourceSettingType> = {}
+): Promise<Record<string, any>> => {
+  const entries = Object.entries(resources)
+    .filter(([id, type]) => type !== 'link_list' && typeof settings[id] === 'string');
+  if (entries.length === 0) {
+    return settings;
+  }
+
+  const resolved = { ...settings };
+
+  await Promise.all(entries.map(async ([id, type]) => {
+    const handle = settings[id] as string;
+    try {
+      if (type === 'product') {
+        resolved[id] = await getProductByHandle(tenantId, handle);
+      } else {
+        const [collection] = await getCollections(tenantId, { handle, limit: 1 });
+        resolved[id] = collection || null;
+      }
+    } catch (error) {
+      logger.warn({ error, tenant_id: tenantId, setting: id, handle }, 'Error resolving theme setting');
+      resolved[id] = null;
+    }
+  }));
+
+  return resolved;
+};
@@ -0,0 +1,39 @@
+import { Counter, Histogram } from 'prom-client';
+
+// Liquid rendering
+export const renderDuration = new Histogram({
+  name: 'storefront_render_duration_seconds',
+  help: 'Time spent rendering a storefront page with Liquid',
+  labelNames: ['template'],
+  buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5]
+});
+
+export const templateParseDuration = new Histogram({
+  name: 'storefront_template_parse_seconds',
+  help: 'Time spent parsing Liquid template sources on a cache miss',
+  buckets: [0.0005, 0.001, 0.0025, 0.005, 0.01, 0.025, 0.05, 0.1]
+});
+
+export const templateCacheRequests = new Counter({
+  name: 'storefront_template_cache_requests_total',
+  help: 'Compiled template cache lookups',
+  labelNames: ['result']
+});
+
+export const templateParseSecondsSaved = new Counter({
+  name: 'storefront_template_parse_saved_seconds_total',
+  help: 'Parse time avoided by serving compiled templates from cache'
+});
+
+export const renderLimitExceeded = new Counter({
+  name: 'storefront_render_limit_exceeded_total',
+  help: 'Renders aborted by a Liquid parse, time or memory limit',
+  labelNames: ['limit']
+});
+
+// Cache refills
+export const coalescedRequests = new Counter({
+  name: 'storefront_coalesced_requests_total',
+  help: 'Lookups served by a load already in flight instead of starting their own',
+  labelNames: ['operation', 'scope'] // scope: process (single-flight) | cluster (Redis refill lock)
+});
@@ -0,0 +1,119 @@
+/**
+ * Shopify-style `paginate` objects and query-string URLs for listing pages
+ */
+
+export interface PaginationLink {
+  title: string;
+  url?: string;
+  is_link: boolean;
+}
+
+export interface Pagination {
+  current_page: number;
+  current_offset: number;
+  items: number;
+  page_size: number;
+  pages: number;
+  previous?: PaginationLink;
+  next?: PaginationLink;
+  parts: PaginationLink[];
+}
+
+// Page links shown on each side of the current page
+const WINDOW = 2;
+
+type QueryValue = string | string[] | undefined;
+
+const queryValues = (value: unknown): string[] => {
+  if (Array.isArray(value)) return value.filter((item): item is string => typeof item === 'string');
+  return typeof value === 'string' ? [value] : [];
+};
+
+/**
+ * Current path with query parameters changed; `undefined` removes a parameter
+ */
+export const urlWithQuery = (
+  path: string,
+  query: Record<string, unknown>,
+  changes: Record<string, QueryValue> = {}
+): string => {
+  const params = new URLSearchParams();
+
+  for (const [name, value] of Object.entries(query)) {
+    if (name in changes) continue;
+    for (const item of queryValues(value)) params.append(name, item);
+  }
+  for (const [name, value] of Object.entries(changes)) {
+    for (const item of queryValues(value)) params.append(name, item);
+  }
+
+  const search = params.toString();
+  return search ? `${path}?${search}` : path;
+};
+
+/**
+ * Requested page number, at least 1 and at most `maxPage`
+ */
+export const pageFromQuery = (query: Record<string, unknown>, maxPage: number = 100): number => {
+  const page = parseInt(queryValues(query.page)[0] || '1', 10);
+  return Math.min(Math.max(Number.isFinite(page) ? page : 1, 1), maxPage);
+};
+
+export const buildPagination = (options: {
+  path: string;
+  query: Record<string, unknown>;
+  total: number;
+  page: number;
+  pageSize: number;
+}): Pagination => {
+  const { path, query, total, page, pageSize } = options;
+  const pages = Math.max(Math.ceil(total / pageSize), 1);
+  const current = Math.min(page, pages);
+  const urlFor = (target: number) => urlWithQuery(path, query, { page: target > 1 ? String(target) : undefined });
+
+  const parts: PaginationLink[] = [];
+  const addPage = (target: number) => parts.push(target === current
+    ? { title: String(target), is_link: false }
+    : { title: String(target), url: urlFor(target), is_link: true });
+  const addGap = () => parts.push({ title: '&hellip;', is_link: false });
+
+  if (pages > 1) {
+    const from = Math.max(current - WINDOW, 1);
+    const to = Math.min(current + WINDOW, pages);
+
+    if (from > 1) addPage(1);
+    if (from > 2) addGap();
+    for (let target = from; target <= to; target++) addPage(target);
+    if (to < pages - 1) addGap();
+    if (to < pages) addPage(pages);
+  }
+
+  return {
+    current_page: current,
+    current_offset: (current - 1) * pageSize,
+    items: total,
+    page_size: pageSize,
+    pages,
+    previous: current > 1 ? { title: 'Previous', url: urlFor(current - 1), is_link: true } : undefined,
+    next: current < pages ? { title: 'Next', url: urlFor(current + 1), is_link: true } : undefined,
+    parts
+  };
+};
+
+/**
+ * Loads one page of a listing at the page size chosen by the theme's
+ * `{% paginate ... by n %}` tag
+ */
+export type Paginator = (pageSize: number) => Promise<{ items: unknown[]; paginate: Pagination }>;
+
+const PAGINATOR = Symbol('paginator');
+
+/**
+ * Attach a paginator to the items a route loaded at its default page size.
+ * Non-enumerable, so templates and serialization only see the array.
+ */
+export const withPaginator = <T>(items: T[], paginator: Paginator): T[] =>
+  Object.defineProperty(items, PAGINATOR, { value: paginator, enumerable: false });
+
+export const paginatorOf = (value: unknown): Paginator | undefined =>
+  Array.isArray(value) ? (value as unknown as Record<symbol, Paginator | undefined>)[PAGINATOR] : undefined;
@@ -0,0 +1,4 @@
+/**
+ * Escape LIKE/ILIKE wildcards so user input matches literally (default `\` escape character)
+ */
+export const escapeLike = (value: string): string => value.replace(/[\\%_]/g, '\\$&');